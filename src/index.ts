@@ -1,16 +1,29 @@
 import { Context, Schema, Session } from 'koishi'
 import { join } from 'path'
 import {} from 'koishi-plugin-adapter-onebot'
-import { FileRecordService } from './services/FileRecordService'
+import { FileRecordService, TranscriptFormat } from './services/FileRecordService'
 import { FileReplyService } from './services/FileReplyService'
 import { KeywordReplyService } from './services/KeywordReplyService'
 import { ForwardingService } from './services/ForwardingService'
 import { CurfewService } from './services/CurfewService'
+import { CrashAnalysisService } from './services/CrashAnalysisService'
+import { LogRetentionService } from './services/LogRetentionService'
+import { WebViewerService } from './services/WebViewerService'
+import { RedactionService } from './services/RedactionService'
+import { StatisticsService } from './services/StatisticsService'
+import { GROUP_LIST_LABELS, GroupListType, LauncherRegistryService } from './services/LauncherRegistryService'
+import { ReportSnifferService } from './services/ReportSnifferService'
+import { KeywordStatsService } from './services/KeywordStatsService'
+import { DEFAULT_PASTE_HOSTS, PasteLinkService } from './services/PasteLinkService'
+import { OcrProviderType, OcrService } from './services/OcrService'
 import * as utils from './utils'
 import { isUserWhitelisted } from './utils'
 
 export const name = 'mcl-grouptool'
 
+// 报告网页查看需要 server 服务，未安装时其余功能不受影响
+export const inject = { optional: ['server'] }
+
 // 插件介绍与使用说明
 export const usage = `
 <div style="border-radius: 10px; border: 1px solid #ddd; padding: 16px; margin-bottom: 20px; box-shadow: 0 2px 5px rgba(0,0,0,0.1);">
@@ -31,6 +44,10 @@ export interface Config {
   // 功能开关
   fileReply?: boolean
   fileRecord?: boolean
+  crashAnalysis?: boolean
+  webViewer?: boolean
+  redactLogs?: boolean
+  pasteLinks?: boolean
   keywordReply?: boolean
   ocrReply?: boolean
   curfew?: boolean
@@ -38,12 +55,30 @@ export interface Config {
   adminCommands?: boolean
   // 参数配置
   preventDup?: boolean
+  keywordCooldown?: number
+  keywordUserCooldown?: number
+  keywordFuzzyThreshold?: number
+  redirectWindow?: number
+  redirectMentionCount?: number
+  redirectMuteCount?: number
+  redirectMuteDuration?: number
   quote?: boolean
   mention?: boolean
   recordTimeout?: number
   conversationTimeout?: number
+  logArchiveDays?: number
+  logRetentionDays?: number
+  logMaxSize?: number
+  logCleanupInterval?: number
+  webViewerToken?: string
+  redactRules?: { name?: string; pattern: string; replacement?: string }[]
+  pasteHosts?: { host: string; rawUrl: string }[]
   curfewTime?: string
   forwardTarget?: string
+  statDigestTarget?: string
+  ocrProvider?: OcrProviderType
+  ocrEndpoint?: string
+  ruleAlertTarget?: string
   additionalGroups?: string[]
   whitelist?: { userId: string; nickname?: string }[]
 }
@@ -53,6 +88,10 @@ export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     fileReply: Schema.boolean().default(false).description('报错指引'),
     fileRecord: Schema.boolean().default(false).description('报告记录'),
+    crashAnalysis: Schema.boolean().default(false).description('报告分析（需开启报告记录）'),
+    webViewer: Schema.boolean().default(false).description('报告网页查看（需开启报告记录）'),
+    redactLogs: Schema.boolean().default(true).description('报告脱敏（需开启报告记录）'),
+    pasteLinks: Schema.boolean().default(false).description('粘贴链接识别（需开启报错指引或报告记录）'),
     keywordReply: Schema.boolean().default(false).description('关键词回复'),
     ocrReply: Schema.boolean().default(false).description('OCR 识别'),
     enableForward: Schema.boolean().default(false).description('关键词转发'),
@@ -64,11 +103,36 @@ export const Config: Schema<Config> = Schema.intersect([
     quote: Schema.boolean().default(true).description('回复时引用消息。'),
     mention: Schema.boolean().default(false).description('回复时@用户。'),
     preventDup: Schema.boolean().default(true).description('报错指引延迟发送'),
+    keywordCooldown: Schema.number().default(60).description('同一关键词在同一群的回复冷却（秒，0 为不限制）'),
+    keywordUserCooldown: Schema.number().default(10).description('同一用户触发关键词回复的冷却（秒，0 为不限制）'),
+    keywordFuzzyThreshold: Schema.number().min(0).max(1).step(0.05).default(0.6).description('关键词模糊匹配置信度阈值'),
+    redirectWindow: Schema.number().default(24).description('发错群统计时长（小时）'),
+    redirectMentionCount: Schema.number().default(2).description('发错群达到该次数时@用户并附上加群链接（0 为不@）'),
+    redirectMuteCount: Schema.number().default(0).description('发错群达到该次数时禁言（0 为不禁言）'),
+    redirectMuteDuration: Schema.number().default(5).description('发错群禁言时长（分钟）'),
     recordTimeout: Schema.number().default(2).description('报告交叉记录时长（分钟）'),
     conversationTimeout: Schema.number().default(10).description('报告记录会话时长（分钟）'),
+    logArchiveDays: Schema.number().default(30).description('报告归档天数（0 为不归档）'),
+    logRetentionDays: Schema.number().default(0).description('报告保留天数（0 为永久保留）'),
+    logMaxSize: Schema.number().default(0).description('报告存储上限（MB，0 为不限制）'),
+    logCleanupInterval: Schema.number().default(24).description('报告清理间隔（小时）'),
+    webViewerToken: Schema.string().role('secret').description('报告网页查看访问令牌'),
     curfewTime: Schema.string().default('23-7').description('宵禁时间'),
     forwardTarget: Schema.string().description('消息转发目标'),
+    statDigestTarget: Schema.string().description('统计周报发送群组（留空不发送）'),
+    ruleAlertTarget: Schema.string().description('关键词停用通知群组（留空则私聊白名单用户）'),
+    ocrProvider: Schema.union([Schema.const('onebot').description('OneBot'), Schema.const('http').description('HTTP 接口')]).default('onebot').description('OCR 识别方式'),
+    ocrEndpoint: Schema.string().description('OCR 接口地址（识别方式为 HTTP 接口时使用）'),
     additionalGroups: Schema.array(Schema.string()).description('报告记录额外群组').role('table'),
+    redactRules: Schema.array(Schema.object({
+      name: Schema.string().description('名称'),
+      pattern: Schema.string().description('正则表达式'),
+      replacement: Schema.string().default('***').description('替换为'),
+    })).description('报告自定义脱敏规则').role('table'),
+    pasteHosts: Schema.array(Schema.object({
+      host: Schema.string().description('域名'),
+      rawUrl: Schema.string().description('原文地址（{path} 为链接路径）'),
+    })).default(DEFAULT_PASTE_HOSTS).description('粘贴站点').role('table'),
     whitelist: Schema.array(Schema.object({
       userId: Schema.string().description('QQ'),
       nickname: Schema.string().description('昵称'),
@@ -85,26 +149,34 @@ export const Config: Schema<Config> = Schema.intersect([
 export function apply(ctx: Context, config: Config) {
   const dataPath = join(ctx.baseDir, 'data', name)
 
+  // 启动器与群组注册表，供各个服务读取群组信息
+  const launcherRegistry = new LauncherRegistryService(ctx, config, dataPath)
+
   // 根据配置按需实例化各个功能服务
-  const fileReplyService = config.fileReply ? new FileReplyService(ctx, config) : null
-  const keywordReplyService = config.keywordReply || config.ocrReply ? new KeywordReplyService(ctx, config, dataPath) : null
+  const reportSniffer = config.fileReply || config.fileRecord ? new ReportSnifferService(ctx, config, launcherRegistry) : null
+  const fileReplyService = config.fileReply ? new FileReplyService(ctx, config, dataPath, launcherRegistry, reportSniffer) : null
+  // OCR 服务同时用于关键词回复与 .kt 测试引用的图片
+  const ocrService = config.keywordReply || config.ocrReply || config.enableForward ? new OcrService(ctx, config) : null
+  const keywordReplyService =
+    config.keywordReply || config.ocrReply ? new KeywordReplyService(ctx, config, dataPath, launcherRegistry, new KeywordStatsService(ctx, config, dataPath), ocrService) : null
   const forwardingService = config.enableForward ? new ForwardingService(ctx, config, dataPath) : null
-  const fileRecordService = config.fileRecord ? new FileRecordService(ctx, config, dataPath) : null
-  const curfewService = config.curfew ? new CurfewService(ctx, config) : null
+  const crashAnalysisService = config.fileRecord && config.crashAnalysis ? new CrashAnalysisService(ctx, config) : null
+  const redactionService = config.fileRecord && config.redactLogs ? new RedactionService(ctx, config) : null
+  const fileRecordService = config.fileRecord ? new FileRecordService(ctx, config, dataPath, launcherRegistry, reportSniffer, crashAnalysisService, redactionService) : null
+  const pasteLinkService = config.pasteLinks && (fileReplyService || fileRecordService) ? new PasteLinkService(ctx, config) : null
+  const logRetentionService = fileRecordService ? new LogRetentionService(ctx, config, fileRecordService) : null
+  if (fileRecordService && config.webViewer) new WebViewerService(ctx, config, fileRecordService)
+  const statisticsService = fileRecordService || fileReplyService ? new StatisticsService(ctx, config, fileRecordService, fileReplyService) : null
+  const curfewService = config.curfew ? new CurfewService(ctx, config, launcherRegistry) : null
 
   const mcl = ctx.command('mcl', 'MCL 群组管理')
 
   // --- 注册群组管理相关子命令 ---
   if (config.adminCommands) {
-    const groupAliases = {
-      '666546887': '666546887', H: '666546887', HMCL: '666546887',
-      '978054335': '978054335', P: '978054335', PCL: '978054335',
-    }
-
     const resolveGroupId = (groupKey: string, session: Session): string | null => {
       if (groupKey) {
-        const key = groupKey.toUpperCase()
-        if (groupAliases[key]) return groupAliases[key]
+        const groupId = launcherRegistry.resolveGroupAlias(groupKey)
+        if (groupId) return groupId
       }
       return session.guildId || null
     }
@@ -200,15 +272,92 @@ export function apply(ctx: Context, config: Config) {
       })
   }
 
+  // --- 注册启动器注册表相关子命令 ---
+  if (config.fileReply || config.fileRecord || config.curfew || config.adminCommands) {
+    const parseGroups = (groups?: string): string[] => groups?.split(/[\s,，]+/).filter(Boolean) ?? []
+
+    mcl
+      .subcommand('.ll', '查看启动器列表')
+      .usage('查看所有启动器的报错群、关联群与报告文件格式，以及多启动器交流群、报告记录群与宵禁群。')
+      .action(({ session }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        return launcherRegistry.listLaunchers()
+      })
+
+    mcl
+      .subcommand('.la <id:string> <name:string> <groupId:string>', '添加启动器')
+      .usage('添加一个启动器及其报错群，启动器已存在时更新其名称与报错群。')
+      .action(async ({ session }, id, name, groupId) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!id || !name || !groupId) return '请提供启动器标识、名称和报错群号。'
+        return launcherRegistry.addLauncher(id, name, groupId)
+      })
+
+    mcl
+      .subcommand('.lr <launcher:string>', '删除启动器')
+      .usage('删除一个启动器。')
+      .action(async ({ session }, launcher) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!launcher) return '请提供要删除的启动器。'
+        return launcherRegistry.removeLauncher(launcher)
+      })
+
+    mcl
+      .subcommand('.lg <launcher:string> [groups:text]', '配置启动器关联群')
+      .usage('设置启动器的关联群，多个群号用空格或逗号分隔，留空则清空。')
+      .action(async ({ session }, launcher, groups) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!launcher) return '请提供要操作的启动器。'
+        return launcherRegistry.setLauncherGroups(launcher, parseGroups(groups))
+      })
+
+    mcl
+      .subcommand('.lj <launcher:string> [link:string]', '配置启动器加群链接')
+      .usage('设置启动器报错群的加群链接，多次发错群时附在提示中，留空则清除。')
+      .action(async ({ session }, launcher, link) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!launcher) return '请提供要操作的启动器。'
+        return launcherRegistry.setLauncherJoinLink(launcher, link)
+      })
+
+    mcl
+      .subcommand('.lp <launcher:string> <pattern:text>', '配置启动器文件格式')
+      .usage('为启动器添加报告文件名的正则表达式，已存在时则移除。')
+      .action(async ({ session }, launcher, pattern) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!launcher || !pattern) return '请提供启动器和正则表达式。'
+        return launcherRegistry.toggleLauncherPattern(launcher, pattern)
+      })
+
+    mcl
+      .subcommand('.lm <launcher:string> <pattern:text>', '配置启动器内容特征')
+      .usage('为启动器添加识别报告内容的正则表达式，已存在时则移除。表达式同时匹配压缩包内的文件路径与日志开头的内容，`^` 与 `$` 匹配每一行。')
+      .action(async ({ session }, launcher, pattern) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!launcher || !pattern) return '请提供启动器和正则表达式。'
+        return launcherRegistry.toggleLauncherPattern(launcher, pattern, 'markers')
+      })
+
+    mcl
+      .subcommand('.lgs <type:string> [groups:text]', '配置群组列表')
+      .usage(`设置群组列表，类型可选：${Object.entries(GROUP_LIST_LABELS).map(([type, label]) => `${type}（${label}）`).join('、')}。多个群号用空格或逗号分隔，留空则清空。`)
+      .action(async ({ session }, type, groups) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!(type in GROUP_LIST_LABELS)) return `群组列表类型仅支持 ${Object.keys(GROUP_LIST_LABELS).join('、')}。`
+        return launcherRegistry.setGroupList(type as GroupListType, parseGroups(groups))
+      })
+  }
+
   // --- 注册关键词回复相关子命令 ---
   if (keywordReplyService) {
     mcl
       .subcommand('.ka <text:string> <reply:text>', '添加回复关键词')
-      .usage('添加一个用于触发回复的关键词。')
-      .action(async ({ session }, text, reply) => {
+      .usage('添加一个用于触发回复的关键词。可用 -g 指定生效范围，如 `-g hmcl` 或 `-g 123456,654321`，默认在所有群生效。回复内容支持 `{user}`、`{userName}`、`{group}`、`{groupName}`、`{date}`、`{target}` 与 `{1}`、`{2}` 等变量，可用 `{1|默认值}` 设置默认值。')
+      .option('scope', '-g <scope:string> 生效范围')
+      .action(async ({ session, options }, text, reply) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text || !reply) return '请提供关键词和回复内容。'
-        return keywordReplyService.addKeyword(text, reply)
+        return keywordReplyService.addKeyword(text, reply, options.scope, session)
       })
 
     mcl
@@ -217,7 +366,7 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, text) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text) return '请提供要删除的关键词。'
-        return keywordReplyService.removeKeyword(text)
+        return keywordReplyService.removeKeyword(text, session)
       })
 
     mcl
@@ -226,15 +375,25 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, oldText, newText) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!oldText || !newText) return '请提供旧关键词和新关键词。'
-        return keywordReplyService.renameKeyword(oldText, newText)
+        return keywordReplyService.renameKeyword(oldText, newText, session)
       })
 
     mcl
       .subcommand('.kl', '查看回复关键词列表')
-      .usage('查看所有已配置的回复关键词。')
-      .action(({ session }) => {
+      .usage('查看在本群生效的回复关键词，使用 -a 查看所有关键词及其生效范围。')
+      .option('all', '-a 所有关键词')
+      .action(({ session, options }) => {
         if (!isUserWhitelisted(session.userId, config)) return
-        return keywordReplyService.listKeywords()
+        return keywordReplyService.listKeywords(options.all || session.isDirect ? undefined : session.channelId)
+      })
+
+    mcl
+      .subcommand('.ks <text:string> [scope:text]', '配置关键词生效范围')
+      .usage('设置回复关键词的生效范围，可填写群号或启动器（在其所有关联群生效），多个用空格或逗号分隔；留空或填写 all 则在所有群生效。')
+      .action(async ({ session }, text, scope) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!text) return '请提供要操作的关键词。'
+        return keywordReplyService.setKeywordScope(text, scope, session)
       })
 
     mcl
@@ -243,12 +402,86 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, text, regex) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text) return '请提供要操作的关键词。'
-        return keywordReplyService.toggleKeywordRegex(text, regex)
+        return keywordReplyService.toggleKeywordRegex(text, regex, session)
+      })
+
+    mcl
+      .subcommand('.kst [range:string]', '查看关键词统计')
+      .usage('查看各关键词的命中次数、触发来源与冷却拦截次数，并列出未被触发的关键词。范围支持 30d、YYYY-MM-DD（至今天）或 起始~截止，默认为最近 30 天。')
+      .action(({ session }, range) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const dateRange = utils.parseDateRange(range, '30d')
+        if (typeof dateRange === 'string') return dateRange
+        return keywordReplyService.getStatsReport(dateRange.since, dateRange.until)
+      })
+
+    mcl
+      .subcommand('.kex <text:string> <example:text>', '配置关键词示例问法')
+      .usage('为回复关键词添加示例问法，已存在时则移除。配置了示例问法的关键词按相似度模糊匹配，正则表达式优先。')
+      .action(async ({ session }, text, example) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!text || !example) return '请提供关键词和示例问法。'
+        return keywordReplyService.toggleKeywordExample(text, example, session)
+      })
+
+    mcl
+      .subcommand('.kfs <content:text>', '查看模糊匹配相似度')
+      .usage('计算一段文本与本群各模糊匹配关键词的相似度，用于调试示例问法与置信度阈值。')
+      .action(({ session }, content) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!content) return '请提供要检查的文本。'
+        return keywordReplyService.scoreKeywords(content, session.isDirect ? undefined : session.channelId)
+      })
+
+    mcl
+      .subcommand('.kx', '导出回复关键词')
+      .usage('将所有回复关键词导出为规则集文件，格式可选 json、yaml，用于备份或同步到其他机器人。')
+      .option('format', '-f <format:string> 文件格式', { fallback: 'json' })
+      .action(async ({ session, options }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!['json', 'yaml'].includes(options.format)) return '文件格式仅支持 json、yaml。'
+        return keywordReplyService.exportKeywords(options.format as utils.RuleSetFormat, session)
+      })
+
+    mcl
+      .subcommand('.ki', '导入回复关键词')
+      .usage('上传 JSON 或 YAML 格式的规则集文件，预览新增、修改与删除的关键词后确认导入。默认合并（同名关键词被覆盖），使用 -r 替换为规则集中的关键词。')
+      .option('replace', '-r 替换模式')
+      .action(async ({ session, options }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const file = await utils.receiveRuleSetFile(ctx, session)
+        if (typeof file === 'string') return file
+        return keywordReplyService.importKeywords(session, file, options.replace ? 'replace' : 'merge')
+      })
+
+    mcl
+      .subcommand('.kh [text:string]', '查看关键词修改历史')
+      .usage('查看回复关键词最近的修改记录，包括修订号、时间、操作者与修改内容。指定关键词时只列出该关键词的修改。')
+      .action(async ({ session }, text) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        return keywordReplyService.getHistory(text)
+      })
+
+    mcl
+      .subcommand('.ku [revision:posint]', '撤销关键词修改')
+      .usage('撤销指定修订号的修改，默认撤销最近一次修改。撤销也会记为一次修改，可再次撤销。')
+      .action(async ({ session }, revision) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        return keywordReplyService.undoRevision(revision, session)
+      })
+
+    mcl
+      .subcommand('.kb <text:string> <revision:posint>', '回滚回复关键词')
+      .usage('将关键词回滚到指定修订之后的内容，修订号可通过 .kh 查看。')
+      .action(async ({ session }, text, revision) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!text || !revision) return '请提供关键词和修订号。'
+        return keywordReplyService.rollbackKeyword(text, revision, session)
       })
 
     mcl
       .subcommand('.s <textKey:string> [target:string] [placeholderValue:text]', '发送预设回复')
-      .usage('手动触发预设回复。')
+      .usage('手动触发预设回复。目标用户之后的内容按空白分隔依次填入回复中的 `{1}`、`{2}` 等变量。')
       .action(async ({ session }, textKey, target, placeholderValue) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!textKey) return '请提供关键词。'
@@ -271,7 +504,7 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, text) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text) return '请提供要添加的关键词。'
-        return forwardingService.addFwdKeyword(text)
+        return forwardingService.addFwdKeyword(text, session)
       })
 
     mcl
@@ -280,7 +513,7 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, text) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text) return '请提供要删除的关键词。'
-        return forwardingService.removeFwdKeyword(text)
+        return forwardingService.removeFwdKeyword(text, session)
       })
 
     mcl
@@ -289,7 +522,7 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, oldText, newText) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!oldText || !newText) return '请提供旧关键词和新关键词。'
-        return forwardingService.renameFwdKeyword(oldText, newText)
+        return forwardingService.renameFwdKeyword(oldText, newText, session)
       })
 
     mcl
@@ -306,7 +539,148 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }, text, regex) => {
         if (!isUserWhitelisted(session.userId, config)) return
         if (!text) return '请提供要操作的关键词。'
-        return forwardingService.toggleFwdKeywordRegex(text, regex)
+        return forwardingService.toggleFwdKeywordRegex(text, regex, session)
+      })
+
+    mcl
+      .subcommand('.fx', '导出转发关键词')
+      .usage('将所有转发关键词导出为规则集文件，格式可选 json、yaml，用于备份或同步到其他机器人。')
+      .option('format', '-f <format:string> 文件格式', { fallback: 'json' })
+      .action(async ({ session, options }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!['json', 'yaml'].includes(options.format)) return '文件格式仅支持 json、yaml。'
+        return forwardingService.exportFwdKeywords(options.format as utils.RuleSetFormat, session)
+      })
+
+    mcl
+      .subcommand('.fi', '导入转发关键词')
+      .usage('上传 JSON 或 YAML 格式的规则集文件，预览新增、修改与删除的关键词后确认导入。默认合并（同名关键词被覆盖），使用 -r 替换为规则集中的关键词。')
+      .option('replace', '-r 替换模式')
+      .action(async ({ session, options }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const file = await utils.receiveRuleSetFile(ctx, session)
+        if (typeof file === 'string') return file
+        return forwardingService.importFwdKeywords(session, file, options.replace ? 'replace' : 'merge')
+      })
+
+    mcl
+      .subcommand('.fh [text:string]', '查看转发关键词修改历史')
+      .usage('查看转发关键词最近的修改记录，包括修订号、时间、操作者与修改内容。指定关键词时只列出该关键词的修改。')
+      .action(async ({ session }, text) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        return forwardingService.getHistory(text)
+      })
+
+    mcl
+      .subcommand('.fu [revision:posint]', '撤销转发关键词修改')
+      .usage('撤销指定修订号的修改，默认撤销最近一次修改。撤销也会记为一次修改，可再次撤销。')
+      .action(async ({ session }, revision) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        return forwardingService.undoRevision(revision, session)
+      })
+
+    mcl
+      .subcommand('.fb <text:string> <revision:posint>', '回滚转发关键词')
+      .usage('将转发关键词回滚到指定修订之后的内容，修订号可通过 .fh 查看。')
+      .action(async ({ session }, text, revision) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!text || !revision) return '请提供关键词和修订号。'
+        return forwardingService.rollbackFwdKeyword(text, revision, session)
+      })
+  }
+
+  if (keywordReplyService || forwardingService) {
+    mcl
+      .subcommand('.kt [content:text]', '测试关键词匹配')
+      .usage('列出文本会匹配的所有回复关键词与转发关键词，以及匹配方式与实际生效的关键词，不会发送回复或转发消息。引用图片消息时同时测试图片的 OCR 识别结果。')
+      .action(async ({ session }, content) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const channelId = session.isDirect ? undefined : session.channelId
+        const testContent = (text: string) => [keywordReplyService?.testKeywords(text, channelId), forwardingService?.testFwdKeywords(text)].filter(Boolean).join('\n')
+
+        const results: string[] = []
+        if (content) results.push(`文本：${content}`, testContent(content))
+        if (session.quote?.elements?.some(el => el.type === 'img')) {
+          const ocrText = await ocrService.recognizeImages(session.quote.elements, session)
+          results.push(ocrText ? `图片识别结果：${ocrText}\n${testContent(ocrText)}` : '无法识别引用的图片：OCR 不可用或图片中没有文字')
+        }
+        return results.length ? results.join('\n\n') : '请提供要测试的文本，或引用一张图片。'
+      })
+  }
+
+  // --- 注册报告记录相关子命令 ---
+  if (fileRecordService) {
+    mcl
+      .subcommand('.rx <recordId:string>', '导出报告记录')
+      .usage('将报告记录导出为 HTML、Markdown 文件或合并转发消息，格式可选 html、md、fwd。')
+      .option('format', '-f <format:string> 导出格式', { fallback: 'html' })
+      .action(async ({ session, options }, recordId) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!recordId) return '请提供记录 ID。'
+        if (!['html', 'md', 'fwd'].includes(options.format)) return '导出格式仅支持 html、md、fwd。'
+        return fileRecordService.exportTranscript(recordId, options.format as TranscriptFormat, session)
+      })
+
+    mcl
+      .subcommand('.rc <target:string> <status:string> [summary:text]', '关闭报告记录')
+      .usage('以处理结果关闭报告记录并结束其会话，目标可以是记录 ID 或本群中正在记录的上传者，处理结果可选：已解决、未解决、重复、用户离开。')
+      .action(async ({ session }, target, status, summary) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (!target || !status) return '请提供记录和处理结果。'
+        return fileRecordService.closeRecord(target, status, summary, session)
+      })
+
+    mcl
+      .subcommand('.rq [text:text]', '搜索报告记录')
+      .usage('按上传者、日期、文件名、启动器或对话内容搜索报告记录，日期支持 YYYY-MM-DD 或 7d 等相对时长。')
+      .option('user', '-u <user:string> 上传者')
+      .option('since', '-s <date:string> 起始日期')
+      .option('until', '-e <date:string> 截止日期')
+      .option('name', '-n <pattern:string> 文件名')
+      .option('launcher', '-l <launcher:string> 启动器')
+      .action(async ({ session, options }, text) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const since = options.since ? utils.parseDateInput(options.since) : undefined
+        const until = options.until ? utils.parseDateInput(options.until) : undefined
+        if (since === null || until === null) return '日期格式无效，请使用 YYYY-MM-DD 或 7d 等格式。'
+        const uploaderId = options.user ? utils.parseTarget(options.user) : undefined
+        if (uploaderId === null) return '无法识别上传者。'
+        if (!text && !uploaderId && !since && !until && !options.name && !options.launcher) return '请至少提供一个搜索条件。'
+        return fileRecordService.searchRecords({ uploaderId, since, until, fileName: options.name, launcher: options.launcher, text })
+      })
+
+    mcl
+      .subcommand('.rs', '查看报告存储状态')
+      .usage('查看报告记录的磁盘占用与保留策略，使用 -c 立即执行一次清理。')
+      .option('clean', '-c 立即清理')
+      .action(async ({ session, options }) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        if (options.clean) await logRetentionService.runCleanup()
+        return logRetentionService.getStatus()
+      })
+  }
+
+  if (fileReplyService) {
+    mcl
+      .subcommand('.redir [target:string]', '查看发错群统计')
+      .usage('查看统计时长内各用户的发错群次数，指定用户时列出其最近的发错群记录。')
+      .action(async ({ session }, target) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const userId = target ? utils.parseTarget(target) : undefined
+        if (target && !userId) return '请提供有效的用户。'
+        return fileReplyService.getRedirectSummary(userId)
+      })
+  }
+
+  if (statisticsService) {
+    mcl
+      .subcommand('.stat [range:string]', '查看报告统计')
+      .usage('统计各群组、各启动器的报告数量、发错群次数与首次回复时长。范围支持 7d、YYYY-MM-DD（至今天）或 起始~截止，默认为最近 7 天。')
+      .action(async ({ session }, range) => {
+        if (!isUserWhitelisted(session.userId, config)) return
+        const dateRange = utils.parseDateRange(range)
+        if (typeof dateRange === 'string') return dateRange
+        return statisticsService.getReport(dateRange.since, dateRange.until)
       })
   }
 
@@ -334,6 +708,20 @@ export function apply(ctx: Context, config: Config) {
         if (fileReplyService) {
           await fileReplyService.handleMessage(session)
         }
+        // 粘贴链接：只在记录群或启动器群中抓取日志原文，在后台交给报告记录与报错指引，不阻塞后续服务
+        const recordsPaste = fileRecordService?.isFileRecordAllowed(session.channelId)
+        const repliesPaste = fileReplyService && launcherRegistry.getLauncherByGroup(session.channelId)
+        if (pasteLinkService && (recordsPaste || repliesPaste)) {
+          pasteLinkService
+            .fetchLinks(session.content)
+            .then(async files => {
+              for (const file of files) {
+                await fileRecordService?.handlePasteFile(file, session)
+                await fileReplyService?.handlePasteFile(session, file)
+              }
+            })
+            .catch(error => ctx.logger.warn('处理粘贴链接时发生错误:', error))
+        }
         // 3. 消息转发服务
         if (forwardingService) {
           await forwardingService.handleMessage(session)
@@ -0,0 +1,244 @@
+import { promises as fs } from 'fs'
+import { basename, parse } from 'path'
+import { promisify } from 'util'
+import { gunzip } from 'zlib'
+import { Context, Session } from 'koishi'
+import { Config } from '../index'
+import { buildReplyElements, decodeText, readZipEntries, MAX_INFLATE_SIZE } from '../utils'
+
+// --- 接口与常量定义 ---
+
+// 已知问题的匹配规则
+interface AnalysisRule {
+  name: string // 问题名称
+  pattern: RegExp // 在日志中匹配该问题的正则表达式
+  solution: string // 对应的解决方案
+}
+
+/**
+ * @description 一次报告分析的结果。
+ */
+export interface AnalysisResult {
+  signature: string | null // 异常签名，例如 `java.lang.OutOfMemoryError: Java heap space`
+  javaVersion: string | null // Java 版本
+  modLoader: string | null // Mod 加载器及其版本
+  suspectMod: string | null // 可疑 Mod
+  rule: AnalysisRule | null // 命中的已知问题规则
+}
+
+// 需要从报告中提取的日志文件，按分析优先级排列
+const LOG_FILE_PATTERNS = [
+  /(^|\/)crash-reports\/[^/]+\.txt$/i,
+  /(^|\/)crash-[\d-]+_[\d.]+-(client|server)\.txt$/i,
+  /(^|\/)hs_err_pid\d+\.log$/i,
+  /(^|\/)latest\.log$/i,
+  /(^|\/)debug\.log$/i,
+  /(^|\/)minecraft\.log$/i,
+  /(^|\/)游戏崩溃前的输出\.txt$/i,
+]
+// 单个日志文件参与分析的最大字节数，避免超大日志拖慢分析
+const MAX_LOG_BYTES = 4 * 1024 * 1024
+
+const gunzipAsync = promisify(gunzip)
+
+// 已知问题规则表，按顺序匹配，命中第一条即停止
+const ANALYSIS_RULES: AnalysisRule[] = [
+  {
+    name: 'Java 版本过低',
+    pattern: /UnsupportedClassVersionError|has been compiled by a more recent version of the Java Runtime/,
+    solution: '当前 Java 版本过低，请在启动器中为该版本选择更高版本的 Java（1.20.5 及以上需要 Java 21，1.18 及以上需要 Java 17）。',
+  },
+  {
+    name: 'Java 版本过高',
+    pattern: /Unsupported class file major version|java\.lang\.IllegalArgumentException: Unsupported class file/,
+    solution: '当前 Java 版本过高，旧版本游戏或 Mod 加载器请使用 Java 8。',
+  },
+  {
+    name: '内存不足',
+    pattern: /java\.lang\.OutOfMemoryError|Could not reserve enough space for (?:object heap|\d+KB object heap)/,
+    solution: '游戏内存不足，请在启动器中适当调高游戏内存；若提示无法保留堆空间，请确认使用的是 64 位 Java。',
+  },
+  {
+    name: '缺少前置 Mod',
+    pattern: /Missing or unsupported mandatory dependencies|requires (?:any version|version [^\n]+) of [^\n]+, which is missing|Could not find required mod/,
+    solution: '存在 Mod 缺少前置，请根据报错中提示的 Mod 名称安装对应前置，并注意前置的版本要求。',
+  },
+  {
+    name: '重复的 Mod',
+    pattern: /DuplicateModsFoundException|Found a duplicate mod|Duplicate mods found/,
+    solution: 'mods 文件夹中存在重复的 Mod，请只保留其中一个版本。',
+  },
+  {
+    name: 'Mod 版本不兼容',
+    pattern: /Incompatible mods found|Mod resolution failed|ModResolutionException/,
+    solution: '存在与当前游戏版本或其他 Mod 不兼容的 Mod，请根据报错更换对应版本或移除该 Mod。',
+  },
+  {
+    name: 'Mixin 注入失败',
+    pattern: /MixinApplyError|MixinTransformerError|Mixin apply(?: for mod [\w-]+)? failed/,
+    solution: 'Mod 之间存在冲突导致 Mixin 注入失败，请尝试移除或更新可疑 Mod。',
+  },
+  {
+    name: '显卡驱动问题',
+    pattern: /Pixel format not accelerated|GLFW error 65542|The driver does not appear to support OpenGL|(?:ig\w+icd(?:32|64)|atio6axx|atioglxx|nvoglv(?:32|64))\.dll/i,
+    solution: '显卡驱动不支持或存在问题，请前往显卡厂商官网更新驱动；笔记本用户请确认游戏使用的是独立显卡。',
+  },
+  {
+    name: '文件损坏',
+    pattern: /zip END header not found|Invalid or corrupt jarfile|ZipException: (?:invalid|error in opening)/,
+    solution: '游戏或 Mod 文件已损坏，请重新下载游戏文件或对应的 Mod。',
+  },
+  {
+    name: '无效的 JVM 参数',
+    pattern: /Unrecognized (?:VM )?option|Could not create the Java Virtual Machine/,
+    solution: 'JVM 参数无效，请检查并删除启动器中自定义的 JVM 参数。',
+  },
+  {
+    name: '手动触发崩溃',
+    pattern: /Manually triggered debug crash/,
+    solution: '该崩溃是通过长按 F3 + C 手动触发的，并非真正的错误。',
+  },
+  {
+    name: '缺少类文件',
+    pattern: /java\.lang\.(?:NoClassDefFoundError|ClassNotFoundException)/,
+    solution: '游戏运行时缺少类文件，通常是缺少前置 Mod 或 Mod 与游戏版本不匹配，请检查报错中提到的类所属的 Mod。',
+  },
+]
+
+/**
+ * @class CrashAnalysisService
+ * @description 负责解析用户上传的启动器报告，提取关键信息并匹配已知问题的解决方案。
+ */
+export class CrashAnalysisService {
+  constructor(private ctx: Context, private config: Config) {}
+
+  /**
+   * @method analyzeAndReply
+   * @description 分析指定的报告文件，命中已知问题时在群内发送解决方案。
+   * @param filePath 报告文件的本地路径
+   * @param session 上传报告时的会话
+   */
+  public async analyzeAndReply(filePath: string, session: Session): Promise<void> {
+    try {
+      const result = await this.analyzeFile(filePath)
+      if (!result?.rule) return
+      await session.send(buildReplyElements(session, this.formatResult(result), undefined, this.config))
+    } catch (error) {
+      this.ctx.logger.warn(`分析报告文件失败: ${filePath}`, error)
+    }
+  }
+
+  /**
+   * @method analyzeFile
+   * @description 读取并分析报告文件。支持 zip 压缩包、gz 压缩日志与纯文本日志。
+   * @param filePath 报告文件的本地路径
+   * @returns 分析结果，无法读取到任何日志时返回 null。
+   */
+  public async analyzeFile(filePath: string): Promise<AnalysisResult | null> {
+    const logs = await this.extractLogs(basename(filePath), await fs.readFile(filePath))
+    if (!logs.length) return null
+    return this.analyzeLogs(logs)
+  }
+
+  /**
+   * @method formatResult
+   * @description 将分析结果格式化为可发送的文本。
+   * @param result 分析结果
+   * @returns 格式化后的文本
+   */
+  public formatResult(result: AnalysisResult): string {
+    const lines = [`报告分析：${result.rule?.name ?? '未知问题'}`]
+    if (result.signature) lines.push(`异常：${result.signature}`)
+    if (result.javaVersion) lines.push(`Java：${result.javaVersion}`)
+    if (result.modLoader) lines.push(`加载器：${result.modLoader}`)
+    if (result.suspectMod) lines.push(`可疑 Mod：${result.suspectMod}`)
+    if (result.rule) lines.push(`建议：${result.rule.solution}`)
+    return lines.join('\n')
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 从报告文件中取出需要分析的日志文本，按 LOG_FILE_PATTERNS 的优先级排序。
+   */
+  private async extractLogs(fileName: string, buffer: Buffer): Promise<string[]> {
+    const ext = parse(fileName).ext.toLowerCase()
+    if (ext === '.zip') {
+      const entries = await readZipEntries(buffer, name => LOG_FILE_PATTERNS.some(pattern => pattern.test(name)))
+      const priority = (name: string) => LOG_FILE_PATTERNS.findIndex(pattern => pattern.test(name))
+      return entries.sort((a, b) => priority(a.name) - priority(b.name)).map(entry => this.toText(entry.data))
+    }
+    if (ext === '.gz') return [this.toText(await gunzipAsync(buffer, { maxOutputLength: MAX_INFLATE_SIZE }))]
+    if (ext === '.log' || ext === '.txt') return [this.toText(buffer)]
+    return []
+  }
+
+  private toText = (buffer: Buffer): string => decodeText(buffer.length > MAX_LOG_BYTES ? buffer.subarray(buffer.length - MAX_LOG_BYTES) : buffer)
+
+  /**
+   * @description 在所有日志中依次提取各项信息，每一项取第一个成功提取的结果。
+   */
+  private analyzeLogs(logs: string[]): AnalysisResult {
+    const pick = (extractor: (log: string) => string | null): string | null => {
+      for (const log of logs) {
+        const value = extractor(log)
+        if (value) return value
+      }
+      return null
+    }
+    return {
+      signature: pick(this.extractSignature),
+      javaVersion: pick(this.extractJavaVersion),
+      modLoader: pick(this.extractModLoader),
+      suspectMod: pick(this.extractSuspectMod),
+      rule: ANALYSIS_RULES.find(rule => logs.some(log => rule.pattern.test(log))) ?? null,
+    }
+  }
+
+  /**
+   * @description 提取异常签名。JVM 崩溃取错误类型与问题帧，其余优先取最深一层的 `Caused by`。
+   */
+  private extractSignature = (log: string): string | null => {
+    const jvmError = log.match(/^#\s+(EXCEPTION_\w+|SIG\w+)[^\n]*/m)
+    if (jvmError) {
+      const frame = log.match(/^#\s+C\s+\[([^\]]+)\]/m)?.[1]
+      return frame ? `${jvmError[1]} @ ${frame}` : jvmError[1]
+    }
+    const exceptionPattern = /^(?:\s*Caused by: )?((?:[a-zA-Z_$][\w$]*\.)+[A-Z][\w$]*(?:Exception|Error|Throwable))(?::[ \t]*([^\n]*))?$/gm
+    const matches = [...log.matchAll(exceptionPattern)]
+    if (!matches.length) return null
+    const causes = matches.filter(match => match[0].trimStart().startsWith('Caused by:'))
+    const match = causes.length ? causes[causes.length - 1] : matches[0]
+    const message = match[2]?.trim()
+    return message ? `${match[1]}: ${message.slice(0, 120)}` : match[1]
+  }
+
+  private extractJavaVersion = (log: string): string | null =>
+    log.match(/Java Version:\s*([^\n,]+)/i)?.[1]?.trim() ??
+    log.match(/JRE version:[^(]*\(([^)]+)\)/)?.[1]?.trim() ??
+    log.match(/Java is [^\n]*?version ([\d._]+)/i)?.[1] ??
+    log.match(/java\.version[=:]\s*([\d._]+)/i)?.[1] ??
+    null
+
+  private extractModLoader = (log: string): string | null => {
+    const loaders: [string, RegExp][] = [
+      ['NeoForge', /neoforge[-\s:@]+v?(\d+\.\d+\.\d+(?:-beta)?)/i],
+      ['Fabric', /Fabric Loader[\s:@]+v?(\d+\.\d+\.\d+)|fabricloader[\s:@]+(\d+\.\d+\.\d+)/i],
+      ['Quilt', /Quilt Loader[\s:@]+v?(\d+\.\d+\.\d+)|quilt_loader[\s:@]+(\d+\.\d+\.\d+)/i],
+      ['Forge', /(?:MinecraftForge|Forge Mod Loader|fml\.forgeVersion,?|--fml\.forgeVersion)[\s:v]+(\d+\.\d+\.\d+)/i],
+    ]
+    for (const [name, pattern] of loaders) {
+      const match = log.match(pattern)
+      if (match) return `${name} ${match[1] ?? match[2]}`
+    }
+    return null
+  }
+
+  private extractSuspectMod = (log: string): string | null =>
+    log.match(/Suspected Mods?:\s*\n?\s*([^\n]+)/i)?.[1]?.trim().replace(/^None$/i, '') ||
+    log.match(/Mixin apply for mod ([\w-]+) failed/)?.[1] ||
+    log.match(/from mod ([\w-]+)\]/)?.[1] ||
+    log.match(/^-- MOD ([\w-]+) --$/m)?.[1] ||
+    log.match(/Mod '([^']+)' \([\w-]+\) [^\n]* requires/)?.[1] ||
+    null
+}
@@ -1,6 +1,7 @@
 import { Context, Session } from 'koishi'
 import { Config } from '..'
 import { isUserWhitelisted } from '../utils'
+import { LauncherRegistryService } from './LauncherRegistryService'
 
 /**
  * @class CurfewService
@@ -10,7 +11,7 @@ import { isUserWhitelisted } from '../utils'
 export class CurfewService {
   private readonly ctx: Context
   private readonly config: Config
-  private readonly targetGroupIds = ['666546887', '978054335']
+  private readonly launcherRegistry: LauncherRegistryService
 
   private whitelistLastActivity: Map<string, number> = new Map()
   private isCurfewMuted: Map<string, boolean> = new Map()
@@ -21,9 +22,10 @@ export class CurfewService {
   /** 宵禁期间的内部检查定时器，用于检查白名单用户活跃度 */
   private curfewCheckTimer: NodeJS.Timeout
 
-  constructor(ctx: Context, config: Config) {
+  constructor(ctx: Context, config: Config, launcherRegistry: LauncherRegistryService) {
     this.ctx = ctx
     this.config = config
+    this.launcherRegistry = launcherRegistry
 
     if (!this.config.curfewTime || !this.parseCurfewTime()) {
       return
@@ -114,9 +116,9 @@ export class CurfewService {
     // 停止宵禁期间的检查器
     if (this.curfewCheckTimer) clearInterval(this.curfewCheckTimer)
 
-    // 解除所有目标群组的禁言
-    for (const groupId of this.targetGroupIds) {
-      if (this.isCurfewMuted.get(groupId)) {
+    // 解除所有因宵禁而禁言的群组（包括期间被移出宵禁群列表的群组）
+    for (const [groupId, muted] of this.isCurfewMuted) {
+      if (muted) {
         await this.setGroupMute(groupId, false)
       }
     }
@@ -146,6 +148,11 @@ export class CurfewService {
 
   // --- 辅助与事件处理函数 ---
 
+  /** 需要宵禁的群组，从启动器注册表中读取 */
+  private get targetGroupIds(): readonly string[] {
+    return this.launcherRegistry.getGroupList('curfew')
+  }
+
   public handleMessage(session: Session): void {
     if (
       session.guildId &&
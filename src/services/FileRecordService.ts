@@ -1,7 +1,13 @@
+import { promises as fs } from 'fs'
 import { join, parse } from 'path'
-import { Context, Session } from 'koishi'
+import { Context, h, Session } from 'koishi'
 import { Config } from '../index'
-import { isUserWhitelisted, loadJsonFile, saveJsonFile, fileExists, deleteFile, downloadFile } from '../utils'
+import { isUserWhitelisted, loadJsonFile, saveJsonFile, fileExists, deleteFile, downloadFile, readZipFile, listZipFile, parseTarget, hashBuffer, buildReplyElements, escapeHtml, extractFileInfo, sendExportFile } from '../utils'
+import { CrashAnalysisService } from './CrashAnalysisService'
+import { RedactionCounts, RedactionService } from './RedactionService'
+import { LauncherConfig, LauncherRegistryService } from './LauncherRegistryService'
+import { REPORT_TYPE_LABELS, ReportSnifferService, ReportType } from './ReportSnifferService'
+import { PasteFile } from './PasteLinkService'
 
 // --- 接口与常量定义 ---
 
@@ -9,6 +15,56 @@ import { isUserWhitelisted, loadJsonFile, saveJsonFile, fileExists, deleteFile,
 interface MessageRecord {
   content: string // 消息内容
   userId: string // 发送者 ID
+  nickname?: string // 发送者昵称（旧记录中没有此字段）
+  timestamp?: number // 发送时间（旧记录中没有此字段）
+}
+
+// 记录的处理结果
+export type RecordStatus = 'resolved' | 'unresolved' | 'duplicate' | 'left'
+
+// 报告记录的基本信息
+interface RecordMeta {
+  recordId: string // 记录 ID
+  uploaderId: string // 上传者 ID
+  uploaderName?: string // 上传者昵称（旧记录中没有此字段）
+  channelId?: string // 上传所在的群组（旧记录中没有此字段）
+  createdAt?: number // 记录创建时间（旧记录中没有此字段）
+  status?: RecordStatus // 处理结果，未关闭的记录没有此字段
+  summary?: string // 问题原因或解决方案摘要
+  closedBy?: string // 关闭记录的用户 ID
+  closedAt?: number // 关闭时间
+  redactions?: RedactionCounts // 报告文件与对话消息中各类敏感信息的脱敏次数
+  launcher?: string // 根据报告内容识别出的启动器标识（旧记录中没有此字段）
+  reportType?: ReportType // 根据报告内容识别出的报告类型（旧记录中没有此字段）
+  sourceUrl?: string // 通过粘贴链接分享的报告的原始链接
+  redactionFailed?: boolean // 报告文件无法完整脱敏，未保存报告文件
+}
+
+/**
+ * @description 单个报告记录的完整结构，由记录文件中的各行合并而来。
+ */
+export interface RecordData extends RecordMeta {
+  messages: MessageRecord[] // 对话消息
+}
+
+/**
+ * @description 记录文件 (JSONL) 中的一行。首行为 `meta`，之后每条消息追加一行 `message`，修改记录信息时追加一行 `update`。
+ */
+type RecordLine = ({ type: 'meta' } & RecordMeta) | ({ type: 'message' } & MessageRecord) | ({ type: 'update' } & Partial<RecordMeta>)
+
+// 导出记录时支持的格式
+export type TranscriptFormat = 'html' | 'md' | 'fwd'
+
+/**
+ * @description 搜索报告记录时的筛选条件，所有条件均为可选，同时提供时取交集。
+ */
+export interface RecordQuery {
+  uploaderId?: string // 上传者 ID
+  since?: string // 起始日期 (YYYY-MM-DD，含当天)
+  until?: string // 截止日期 (YYYY-MM-DD，含当天)
+  fileName?: string // 文件名模式，支持 `*` 通配符
+  launcher?: string // 启动器名称
+  text?: string // 对话内容中的关键词
 }
 
 // 消息的目标记录信息
@@ -27,35 +83,74 @@ interface ActiveSessionInfo {
  * @description 定义了需要持久化存储的完整状态结构。
  */
 interface ServiceState {
-  fileIndex: Record<string, string> // 文件索引，key: `文件名_文件大小`, value: recordId
+  fileIndex: Record<string, string> // 文件索引，key: 报告文件内容的 SHA-256 摘要, value: recordId
   activeFiles: Record<string, Record<string, ActiveSessionInfo>> // 活跃文件会话，key: channelId, value: { key: userId, value: ActiveSessionInfo }
 }
 
-// 配置允许记录文件的群组
-const FILE_RECORD_GROUPS = ['666546887', '978054335', '958853931'] as const
 // 允许记录的文件扩展名
 const ALLOWED_EXTENSIONS = ['.zip', '.log', '.txt', '.json', '.gz', '.xz']
+// 允许记录的最大文件大小
+const MAX_FILE_SIZE = 16 * 1024 * 1024
 // 允许记录的图片扩展名
 const ALLOWED_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png']
 // 当白名单用户可能同时与多人对话时，消息记录添加的前缀
 const AMBIGUOUS_MESSAGE_PREFIX = '[交叉对话] '
+// 消息内容中已下载图片的占位格式
+const IMAGE_PLACEHOLDER_REGEX = /\[图片: ([^\]]+)\]/g
+// 记录文件的扩展名，旧版本使用整体重写的 JSON 文件，现仅在归档中读取
+const RECORD_FILE_EXT = '.jsonl'
+const LEGACY_RECORD_FILE_EXT = '.json'
+// 状态变更后延迟写入的时间，期间的多次变更合并为一次写入
+const STATE_FLUSH_DELAY = 5000
+// 各处理结果的显示名称及其别名
+export const RECORD_STATUS_LABELS: Record<RecordStatus, string> = { resolved: '已解决', unresolved: '未解决', duplicate: '重复', left: '用户离开' }
+const RECORD_STATUS_ALIASES: Record<string, RecordStatus> = { 解决: 'resolved', 未解决: 'unresolved', 重复: 'duplicate', 离开: 'left', 跑路: 'left' }
+// 日期目录名的格式
+const DATE_DIR_REGEX = /^\d{4}-\d{2}-\d{2}$/
+// 搜索结果最多显示的条数
+const MAX_SEARCH_RESULTS = 10
+// 文件索引键的格式（SHA-256 摘要），旧版本使用 `文件名_文件大小` 作为键
+const FILE_HASH_REGEX = /^[0-9a-f]{64}$/
+// 图片扩展名对应的 MIME 类型，用于在 HTML 中内联图片
+const IMAGE_MIME_TYPES: Record<string, string> = { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png' }
 
 /**
  * @class FileRecordService
  * @description 核心服务类，负责处理所有与文件记录相关的业务逻辑。
  */
 export class FileRecordService {
-  private dataDir: string // 存放记录文件和资源的目录 (e.g., .../data/mcl-grouptool/logs)
+  public readonly dataDir: string // 存放记录文件和资源的目录 (e.g., .../data/mcl-grouptool/logs)
+  public readonly archiveDir: string // 存放按天归档的压缩包的目录 (e.g., .../logs/archive)
+  private exportDir: string // 存放导出记录文件的目录
   private stateFilePath: string // 存放服务状态的 state.json 文件路径
   private fileIndex: Record<string, string> = {} // 文件索引
   private activeFiles: Record<string, Record<string, ActiveSessionInfo>> = {} // 活跃会话
-
-  constructor(private ctx: Context, private config: Config, dataPath: string) {
+  private recordWriteQueues = new Map<string, Promise<void>>() // 每个记录文件的写入队列，保证同一记录的写入按顺序执行
+  private stateFlushTimer: (() => void) | null = null // 取消状态延迟写入的函数
+  private ready: Promise<void> // 状态加载与旧记录迁移完成后兑现，处理消息与写入记录文件在此之后执行
+  private stateWriteQueue: Promise<void> = Promise.resolve() // 状态文件的写入队列
+
+  constructor(
+    private ctx: Context,
+    private config: Config,
+    dataPath: string,
+    private launcherRegistry: LauncherRegistryService,
+    private reportSniffer: ReportSnifferService,
+    private crashAnalysisService?: CrashAnalysisService,
+    private redactionService?: RedactionService,
+  ) {
     this.dataDir = join(dataPath, 'logs')
+    this.archiveDir = join(this.dataDir, 'archive')
+    this.exportDir = join(dataPath, 'exports')
     this.stateFilePath = join(dataPath, 'logs_state.json')
-    this.loadState().catch(error => {
-      ctx.logger.error('初始化文件记录服务状态失败:', error)
-    })
+    this.ready = this.loadState()
+      .then(() => this.migrateLegacyRecords())
+      .then(() => this.migrateFileIndex())
+      .catch(error => {
+        ctx.logger.error('初始化文件记录服务状态失败:', error)
+      })
+    // 插件卸载时立即写入尚未保存的状态
+    ctx.on('dispose', () => this.flushState())
   }
 
   /**
@@ -66,11 +161,22 @@ export class FileRecordService {
    */
   public async handleFile(fileElement: any, session: Session): Promise<void> {
     if (!this.isFileRecordAllowed(session.channelId)) return
-    const fileInfo = await this._extractFileInfo(fileElement, session)
+    const fileInfo = await extractFileInfo(this.ctx, fileElement, session)
     if (!fileInfo) return
     await this._processAndRecordFile(fileInfo.name, fileInfo.size, fileInfo.url, session)
   }
 
+  /**
+   * @method handlePasteFile
+   * @description 将通过粘贴链接分享的日志作为上传的文件记录，并在记录中保存原始链接。
+   * @param file 从粘贴链接抓取的日志
+   * @param session 当前会话
+   */
+  public async handlePasteFile(file: PasteFile, session: Session): Promise<void> {
+    if (!this.isFileRecordAllowed(session.channelId)) return
+    await this._processAndRecordFile(file.name, file.data.length, file.data, session, { sourceUrl: file.url })
+  }
+
   /**
    * @method handleMessage
    * @description 处理普通消息，判断是否应将其追加到某个文件记录中。
@@ -88,14 +194,19 @@ export class FileRecordService {
     const builtMessage = await this._buildMessageContent(session, primaryRecordId)
     if (!builtMessage) return // 如果消息无有效内容（如仅为表情），则不记录
 
-    // 如果目标多于一个（交叉对话），则添加前缀
-    const finalContent = (targets.length > 1 ? AMBIGUOUS_MESSAGE_PREFIX : '') + builtMessage
+    // 如果目标多于一个（交叉对话），则添加前缀，并隐藏消息中的敏感信息
+    const redactions: RedactionCounts = {}
+    const content = this.redactionService ? this.redactionService.redactText(builtMessage, redactions) : builtMessage
+    const finalContent = (targets.length > 1 ? AMBIGUOUS_MESSAGE_PREFIX : '') + content
     const now = Date.now()
     let stateChanged = false
 
+    const nickname = this.getNickname(session)
+
     // 将消息追加到所有目标记录中，并更新活跃时间
     for (const target of targets) {
-      await this._addMessageToRecord(target.recordId, { content: finalContent, userId: session.userId })
+      await this._addMessageToRecord(target.recordId, { content: finalContent, userId: session.userId, nickname, timestamp: now })
+      if (Object.keys(redactions).length) await this.appendRecordLine(target.recordId, { type: 'update', redactions })
       const activeSession = this.activeFiles[session.channelId]?.[target.uploaderId]
       if (activeSession && activeSession.recordId === target.recordId) {
         activeSession.timestamp = now
@@ -104,21 +215,276 @@ export class FileRecordService {
     }
 
     if (stateChanged) {
-      await this.saveState()
+      this.scheduleStateSave()
+    }
+  }
+
+  /**
+   * @method getRecordLauncher
+   * @description 获取报告所属的启动器。优先使用根据内容识别的结果，旧记录则根据文件名识别。
+   * @param record 报告记录
+   * @returns 启动器配置，无法识别时返回 null。
+   */
+  public getRecordLauncher(record: RecordData): LauncherConfig | null {
+    return (record.launcher && this.launcherRegistry.getLauncher(record.launcher)) || this.launcherRegistry.detectLauncherFromFile(parse(record.recordId).base)
+  }
+
+  /**
+   * @method loadRecord
+   * @description 读取指定的报告记录。
+   * @param recordId 记录 ID (e.g., '2025-08-03/report.zip')
+   * @returns 记录内容，不存在时返回 null。
+   */
+  public async loadRecord(recordId: string): Promise<RecordData | null> {
+    if (!this.isValidRecordId(recordId)) return null
+    const { dir, base } = parse(recordId)
+    // 等待该记录尚未完成的写入，避免读到不完整的内容
+    await this.recordWriteQueues.get(recordId)
+    const data = await this.readLogFile(dir, `${base}${RECORD_FILE_EXT}`)
+    if (data) return parseRecordLines(data.toString('utf-8'))
+    // 归档中可能仍是旧版本的 JSON 记录
+    const legacyData = await this.readLogFile(dir, `${base}${LEGACY_RECORD_FILE_EXT}`)
+    if (!legacyData) return null
+    try {
+      return JSON.parse(legacyData.toString('utf-8')) as RecordData
+    } catch (error) {
+      this.ctx.logger.warn(`解析记录文件 ${recordId}${LEGACY_RECORD_FILE_EXT} 失败:`, error)
+      return null
+    }
+  }
+
+  /**
+   * @method readLogFile
+   * @description 读取日志目录中的文件，当天的目录已被归档时从对应的归档压缩包中读取。
+   * @param date 日期目录 (YYYY-MM-DD)
+   * @param fileName 文件名
+   * @returns 文件内容，不存在时返回 null。
+   */
+  public async readLogFile(date: string, fileName: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(join(this.dataDir, date, fileName))
+    } catch {
+      const [entry] = await readZipFile(this.getArchivePath(date), name => name === fileName)
+      return entry?.data ?? null
+    }
+  }
+
+  /**
+   * @method pruneState
+   * @description 清理状态中已失效的条目。活跃会话只保留记录仍在日志目录中的，文件索引只保留记录仍存在（含已归档）的。
+   * @returns 被清理的文件索引与活跃会话条目数量。
+   */
+  public async pruneState(): Promise<{ index: number; active: number }> {
+    const pruned = { index: 0, active: 0 }
+    for (const [fileKey, recordId] of Object.entries(this.fileIndex)) {
+      if (await fileExists(this.getRecordFilePath(recordId))) continue
+      if (await fileExists(this.getArchivePath(parse(recordId).dir))) continue
+      delete this.fileIndex[fileKey]
+      pruned.index++
+    }
+    for (const [channelId, sessions] of Object.entries(this.activeFiles)) {
+      for (const [uploaderId, info] of Object.entries(sessions)) {
+        if (await fileExists(this.getRecordFilePath(info.recordId))) continue
+        delete sessions[uploaderId]
+        pruned.active++
+      }
+      if (!Object.keys(sessions).length) delete this.activeFiles[channelId]
+    }
+    if (pruned.index || pruned.active) await this.flushState()
+    return pruned
+  }
+
+  /**
+   * @method getStateSummary
+   * @description 获取状态中各类条目的数量。
+   */
+  public getStateSummary(): { index: number; active: number } {
+    const active = Object.values(this.activeFiles).reduce((sum, sessions) => sum + Object.keys(sessions).length, 0)
+    return { index: Object.keys(this.fileIndex).length, active }
+  }
+
+  /**
+   * @method closeRecord
+   * @description 以指定的处理结果关闭记录，并立即结束上传者的活跃会话，之后的消息不再追加到该记录中。
+   * @param target 记录 ID，或当前群内有活跃会话的上传者（@某人或 QQ 号）
+   * @param statusInput 处理结果，支持英文名称、中文名称或别名
+   * @param summary 问题原因或解决方案摘要
+   * @param session 当前会话
+   * @returns 操作结果的提示信息。
+   */
+  public async closeRecord(target: string, statusInput: string, summary: string | undefined, session: Session): Promise<string> {
+    const status = parseRecordStatus(statusInput)
+    if (!status) return `无效的处理结果「${statusInput}」，可选：${Object.values(RECORD_STATUS_LABELS).join('、')}`
+
+    const recordId = await this.resolveRecordTarget(target, session.channelId)
+    if (!recordId) return `未找到记录「${target}」`
+    if (!(await fileExists(this.getRecordFilePath(recordId)))) return `记录「${recordId}」已归档，无法修改`
+
+    await this.appendRecordLine(recordId, { type: 'update', status, summary: summary?.trim() || undefined, closedBy: session.userId, closedAt: Date.now() })
+
+    // 结束所有指向该记录的活跃会话
+    for (const sessions of Object.values(this.activeFiles)) {
+      for (const [uploaderId, info] of Object.entries(sessions)) {
+        if (info.recordId === recordId) delete sessions[uploaderId]
+      }
+    }
+    this.scheduleStateSave()
+    return `已将记录「${recordId}」标记为${RECORD_STATUS_LABELS[status]}`
+  }
+
+  /**
+   * @method exportTranscript
+   * @description 将报告记录导出为可阅读的对话记录。html 与 md 格式的文件发送到当前会话后即被删除。
+   * @param recordId 记录 ID
+   * @param format 导出格式：html（内联图片的单文件网页）、md（内联图片的 Markdown 文件）或 fwd（合并转发消息）
+   * @param session 当前会话
+   * @returns 合并转发消息元素，失败时返回提示信息，导出的文件已发送时无返回值。
+   */
+  public async exportTranscript(recordId: string, format: TranscriptFormat, session: Session): Promise<h | string | void> {
+    const record = await this.loadRecord(recordId)
+    if (!record) return `未找到记录「${recordId}」`
+    if (!record.messages.length) return `记录「${recordId}」中没有对话消息`
+
+    if (format === 'fwd') {
+      const messages = await Promise.all(
+        record.messages.map(async msg =>
+          h('message', {}, [h('author', { id: msg.userId, name: this.resolveNickname(msg) }), ...(await this.renderForwardContent(msg, parse(recordId).dir))]),
+        ),
+      )
+      return h('message', { forward: true }, messages)
+    }
+
+    const content = format === 'md' ? await this.renderMarkdown(record) : await this.renderHtml(record)
+    await sendExportFile(session, this.exportDir, `${parse(recordId).base}.${format}`, content)
+  }
+
+  /**
+   * @method searchRecords
+   * @description 按条件搜索报告记录，结果按时间由新到旧排列。
+   * @param query 筛选条件
+   * @returns 匹配记录的列表及摘要。
+   */
+  public async searchRecords(query: RecordQuery): Promise<string> {
+    const fileNamePattern = query.fileName ? new RegExp(query.fileName.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*'), 'i') : null
+    const launcher = query.launcher ? this.launcherRegistry.getLauncher(query.launcher) : null
+    if (query.launcher && !launcher) return `未找到启动器「${query.launcher}」`
+    const text = query.text?.toLowerCase()
+    const results: string[] = []
+    let total = 0
+
+    for (const recordId of await this.listRecordIds(query.since, query.until)) {
+      const fileName = parse(recordId).base
+      if (fileNamePattern && !fileNamePattern.test(fileName)) continue
+
+      const record = await this.loadRecord(recordId)
+      if (!record || (query.uploaderId && record.uploaderId !== query.uploaderId)) continue
+      const fileLauncher = this.getRecordLauncher(record)
+      if (launcher && fileLauncher?.id !== launcher.id) continue
+      const matchedMessage = text ? record.messages.find(msg => msg.content.toLowerCase().includes(text)) : record.messages[0]
+      if (text && !matchedMessage) continue
+
+      total++
+      if (results.length >= MAX_SEARCH_RESULTS) continue
+      const uploader = this.resolveNickname({ userId: record.uploaderId, nickname: record.uploaderName })
+      const launcherName = fileLauncher ? ` | ${fileLauncher.name}` : ''
+      const statusName = record.status ? ` | ${RECORD_STATUS_LABELS[record.status]}` : ''
+      const lines = [`${recordId} | ${uploader}${launcherName}${statusName}`]
+      if (record.summary) lines.push(`  = ${record.summary}`)
+      if (matchedMessage) lines.push(`  > ${this.resolveNickname(matchedMessage)}：${this.makeSnippet(matchedMessage.content, text)}`)
+      results.push(lines.join('\n'))
+    }
+
+    if (!total) return '未找到匹配的记录'
+    const header = total > MAX_SEARCH_RESULTS ? `找到 ${total} 条记录，显示最新的 ${MAX_SEARCH_RESULTS} 条：` : `找到 ${total} 条记录：`
+    return [header, ...results].join('\n')
+  }
+
+  /**
+   * @method listRecordIds
+   * @description 列出日期范围内的所有记录 ID（含已归档的记录），按时间由新到旧排列。
+   * 归档中的旧版本记录文件 `<文件名>.json` 与下载的报告文件 `<文件名>` 位于同一日期目录中，以此区分记录与用户上传的 JSON 文件。
+   * @param since 起始日期 (YYYY-MM-DD，含当天)
+   * @param until 截止日期 (YYYY-MM-DD，含当天)
+   * @returns 记录 ID 列表。
+   */
+  public async listRecordIds(since?: string, until?: string): Promise<string[]> {
+    const liveDates = (await fs.readdir(this.dataDir).catch((): string[] => [])).filter(date => DATE_DIR_REGEX.test(date))
+    const archivedDates = (await fs.readdir(this.archiveDir).catch((): string[] => []))
+      .filter(file => file.endsWith('.zip'))
+      .map(file => file.slice(0, -4))
+      .filter(date => DATE_DIR_REGEX.test(date))
+
+    const recordIds: string[] = []
+    for (const date of [...new Set([...liveDates, ...archivedDates])].sort().reverse()) {
+      if ((since && date < since) || (until && date > until)) continue
+      const files = liveDates.includes(date) ? await fs.readdir(join(this.dataDir, date)) : await listZipFile(this.getArchivePath(date))
+      const fileSet = new Set(files)
+      const records = files
+        .map(file => (file.endsWith(RECORD_FILE_EXT) ? file.slice(0, -RECORD_FILE_EXT.length) : null) ?? this.getLegacyRecordName(file, fileSet))
+        .filter(Boolean)
+      recordIds.push(...records.sort().reverse().map(name => join(date, name)))
     }
+    return recordIds
+  }
+
+  /**
+   * @method renderRecordPage
+   * @description 将报告记录渲染为内联图片的单文件网页。
+   * @param recordId 记录 ID
+   * @param links 显示在记录信息中的链接，例如报告文件的下载地址
+   * @returns 网页内容，记录不存在时返回 null。
+   */
+  public async renderRecordPage(recordId: string, links: { title: string; href: string }[] = []): Promise<string | null> {
+    const record = await this.loadRecord(recordId)
+    return record ? this.renderHtml(record, links) : null
   }
 
   // --- 私有辅助方法 ---
 
   /**
-   * @description 根据 recordId (e.g., '2025-08-03/report.zip') 获取其对应的 JSON 记录文件路径。
+   * @description 将命令参数解析为记录 ID。优先视为记录 ID，其次视为当前群内有活跃会话的上传者。
+   */
+  private async resolveRecordTarget(target: string, channelId: string): Promise<string | null> {
+    if (await this.loadRecord(target)) return target
+    const uploaderId = parseTarget(target)
+    return (uploaderId && this.activeFiles[channelId]?.[uploaderId]?.recordId) || null
+  }
+
+  /**
+   * @description 截取消息内容中关键词附近的片段作为摘要。
+   */
+  private makeSnippet(content: string, keyword?: string, radius = 30): string {
+    const index = keyword ? content.toLowerCase().indexOf(keyword) : 0
+    const start = Math.max(0, index - radius)
+    const end = Math.min(content.length, Math.max(index, 0) + (keyword?.length ?? 0) + radius)
+    return `${start > 0 ? '…' : ''}${content.slice(start, end)}${end < content.length ? '…' : ''}`
+  }
+
+  /**
+   * @description 根据 recordId (e.g., '2025-08-03/report.zip') 获取其对应的 JSONL 记录文件路径。
    */
-  private getRecordFilePath = (recordId: string): string => join(this.dataDir, `${recordId}.json`)
+  private getRecordFilePath = (recordId: string): string => join(this.dataDir, `${recordId}${RECORD_FILE_EXT}`)
+
+  /**
+   * @description 判断文件是否为旧版本的 JSON 记录文件，是则返回对应的报告文件名，否则返回 null。
+   */
+  private getLegacyRecordName = (file: string, fileSet: Set<string>): string | null => {
+    if (!file.endsWith(LEGACY_RECORD_FILE_EXT)) return null
+    const name = file.slice(0, -LEGACY_RECORD_FILE_EXT.length)
+    return fileSet.has(name) ? name : null
+  }
+
+  /**
+   * @description 获取某一天的归档压缩包路径。
+   */
+  private getArchivePath = (date: string): string => join(this.archiveDir, `${date}.zip`)
 
   /**
    * @description 核心逻辑：根据当前消息、发送者身份和会话状态，判断消息应记录到哪个文件。
    */
   private async _findTargetRecordInfos(session: Session): Promise<TargetInfo[]> {
+    // 等待启动时的状态加载完成，避免按不完整的活跃会话判断
+    await this.ready
     const { userId: currentUserId, channelId } = session
     const now = Date.now()
     const explicitTargetId = this._getTargetFromReplyOrMention(session)
@@ -154,51 +520,117 @@ export class FileRecordService {
   }
 
   /**
-   * @description 处理并记录一个新上传的文件。
+   * @description 处理并记录一个新上传的文件。文件内容是否与已有记录重复需要下载后才能判断，因此先创建记录，以便下载期间的对话也能被记录。
+   * @param source 文件的下载地址，或已经取得的文件内容（如粘贴链接的原文）
+   * @param extra 可选，写入记录基本信息的额外字段
    */
-  private async _processAndRecordFile(fileName: string, fileSize: number, fileUrl: string, session: Session): Promise<void> {
+  private async _processAndRecordFile(fileName: string, fileSize: number, source: string | Buffer, session: Session, extra: Partial<RecordMeta> = {}): Promise<void> {
     const { userId: uploaderId, channelId } = session
     // 检查文件大小和扩展名
-    if (fileSize > 16 * 1024 * 1024 || !this.hasAllowedExtension(fileName)) return
-
-    const fileKey = `${fileName}_${fileSize}`
-    const now = Date.now()
+    if (fileSize > MAX_FILE_SIZE || !this.hasAllowedExtension(fileName)) return
+    // 等待启动时的状态加载完成，新建的活跃会话与文件索引不会被加载的状态覆盖
+    await this.ready
 
+    // 创建新的文件记录，ID 现在将包含日期前缀
+    const recordId = await this._createNewRecord(fileName, session, extra)
     if (!this.activeFiles[channelId]) this.activeFiles[channelId] = {}
+    this.activeFiles[channelId][uploaderId] = { recordId, timestamp: Date.now() }
+
+    // 下载文件的目标路径现在也包含日期子目录
+    const downloadPath = join(this.dataDir, recordId)
 
-    // 如果文件之前已被记录过，则直接更新其活跃状态
-    // fileExists 会检查包含日期路径的完整路径
-    if (this.fileIndex[fileKey] && (await fileExists(this.getRecordFilePath(this.fileIndex[fileKey])))) {
-      this.activeFiles[channelId][uploaderId] = { recordId: this.fileIndex[fileKey], timestamp: now }
-      await this.saveState()
-      return
+    // 后台下载文件到内存，成功后按原始内容查重；不是重复的报告时识别报告类型，隐藏其中的敏感信息后再保存，最后分析报告内容。
+    // 无法完整脱敏的报告不保存，只在记录中标注。如果下载失败则回滚记录
+    const loaded = typeof source === 'string' ? this.reportSniffer.download(session.messageId, fileName, source) : Promise.resolve(source)
+    loaded
+      .then(
+        async data => {
+          if (await this.deduplicateRecord(recordId, data, session)) return
+          const update: Partial<RecordMeta> = {}
+          const report = await this.reportSniffer.identify(fileName, data)
+          if (report?.launcher) update.launcher = report.launcher.id
+          if (report?.type) update.reportType = report.type
+          if (this.redactionService) {
+            const redactions = await this.redactionService.saveRedactedFile(downloadPath, data)
+            if (!redactions) update.redactionFailed = true
+            else if (Object.keys(redactions).length) update.redactions = redactions
+          } else {
+            await fs.writeFile(downloadPath, data)
+          }
+          if (Object.keys(update).length) await this.appendRecordLine(recordId, { type: 'update', ...update })
+          if (!update.redactionFailed) await this.crashAnalysisService?.analyzeAndReply(downloadPath, session)
+        },
+        async error => {
+          this.ctx.logger.error(`文件后台下载失败，回滚记录 ${recordId}:`, error)
+          await deleteFile(this.getRecordFilePath(recordId))
+          if (this.activeFiles[channelId]?.[uploaderId]?.recordId === recordId) {
+            delete this.activeFiles[channelId][uploaderId]
+          }
+          this.scheduleStateSave()
+        },
+      )
+      .catch(error => this.ctx.logger.error(`处理已下载的报告文件失败 ${recordId}:`, error))
+
+    this.scheduleStateSave()
+  }
+
+  /**
+   * @description 按文件内容的摘要查重。内容与已有记录相同时，将新记录并入已有记录，并在其他用户或其他群重复上传时提示之前的上传信息；否则将新记录加入文件索引。
+   * @returns 新记录是否已并入已有记录。
+   */
+  private async deduplicateRecord(recordId: string, data: Buffer, session: Session): Promise<boolean> {
+    const hash = hashBuffer(data)
+    const existingId = this.fileIndex[hash]
+    const existing = existingId && existingId !== recordId ? await this.loadRecord(existingId) : null
+    if (!existing) {
+      this.fileIndex[hash] = recordId
+      this.scheduleStateSave()
+      return false
     }
 
-    // 创建新的文件记录，ID 现在将包含日期前缀
-    const recordId = await this._createNewRecord(fileName, uploaderId)
-    this.fileIndex[fileKey] = recordId
-    this.activeFiles[channelId][uploaderId] = { recordId, timestamp: now }
+    // 已归档的记录无法再追加内容，此时保留新记录
+    const merged = await fileExists(this.getRecordFilePath(existingId))
+    if (merged) await this.mergeRecord(recordId, existingId)
 
-    // 下载文件的目标路径现在也包含日期子目录
-    const downloadPath = join(this.dataDir, recordId)
+    if (existing.uploaderId !== session.userId || (existing.channelId && existing.channelId !== session.channelId)) {
+      const uploader = this.resolveNickname({ userId: existing.uploaderId, nickname: existing.uploaderName })
+      const place = existing.channelId && existing.channelId !== session.channelId ? `在群 ${existing.channelId} ` : ''
+      const notice = `该报告已由 ${uploader} 于 ${this.formatTime(existing.createdAt)} ${place}发送过，记录：${existingId}`
+      await session.send(buildReplyElements(session, notice, undefined, this.config))
+    }
+    return merged
+  }
 
-    // 后台下载文件，如果失败则回滚记录
-    downloadFile(this.ctx, fileUrl, downloadPath).catch(async error => {
-      this.ctx.logger.error(`文件后台下载失败，回滚记录 ${recordId}:`, error)
-      await deleteFile(this.getRecordFilePath(recordId))
-      if (this.fileIndex[fileKey] === recordId) delete this.fileIndex[fileKey]
-      if (this.activeFiles[channelId]?.[uploaderId]?.recordId === recordId) {
-        delete this.activeFiles[channelId][uploaderId]
+  /**
+   * @description 将重复上传产生的记录并入已有记录：活跃会话改为指向已有记录，下载期间记录的消息与图片转移到已有记录中，再删除新记录及其报告文件。
+   */
+  private async mergeRecord(fromId: string, toId: string): Promise<void> {
+    // 先切换活跃会话，之后的消息直接记录到已有记录中
+    for (const sessions of Object.values(this.activeFiles)) {
+      for (const info of Object.values(sessions)) {
+        if (info.recordId === fromId) info.recordId = toId
       }
-      await this.saveState()
-    })
-
-    // 立即保存一次状态，以防下载时间过长导致状态丢失
-    await this.saveState()
+    }
+    this.scheduleStateSave()
+
+    const record = await this.loadRecord(fromId)
+    await deleteFile(this.getRecordFilePath(fromId))
+    await deleteFile(join(this.dataDir, fromId))
+
+    const fromDir = parse(fromId).dir
+    const toDir = parse(toId).dir
+    for (const message of record?.messages ?? []) {
+      if (fromDir !== toDir) {
+        for (const [, imageName] of message.content.matchAll(IMAGE_PLACEHOLDER_REGEX)) {
+          await fs.rename(join(this.dataDir, fromDir, imageName), join(this.dataDir, toDir, imageName)).catch(() => {})
+        }
+      }
+      await this._addMessageToRecord(toId, message)
+    }
   }
 
   /**
-   * @description 从会话中构建要保存到 JSON 文件里的消息内容，并处理图片。
+   * @description 从会话中构建要保存到记录文件里的消息内容，并处理图片。
    */
   private async _buildMessageContent(session: Session, recordId: string | null): Promise<string | null> {
     const contentParts: string[] = []
@@ -239,69 +671,230 @@ export class FileRecordService {
   }
 
   /**
-   * @description 创建一个新的 JSON 记录文件。返回的 recordId 将带有日期前缀。
+   * @description 创建一个新的 JSONL 记录文件，写入记录的基本信息。返回的 recordId 将带有日期前缀。
    */
-  private async _createNewRecord(originalFileName: string, uploaderId: string): Promise<string> {
-    const datePrefix = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
+  private async _createNewRecord(originalFileName: string, session: Session, extra: Partial<RecordMeta> = {}): Promise<string> {
+    const datePrefix = new Date().toISOString().slice(0, 10) // YYYY-MM-DD
     const { name, ext } = parse(originalFileName)
-    let count = 1
-    let recordId = join(datePrefix, originalFileName) // e.g., '2025-08-03/report.zip'
-
-    // 处理文件名冲突，例如 a.zip, a(1).zip
-    while (await fileExists(this.getRecordFilePath(recordId))) {
-      const newFileName = `${name}(${count})${ext}`
-      recordId = join(datePrefix, newFileName)
-      count++
+    await fs.mkdir(join(this.dataDir, datePrefix), { recursive: true })
+
+    // 处理文件名冲突，例如 a.zip, a(1).zip。以独占方式创建文件，避免同名文件同时上传时互相覆盖
+    for (let count = 0; ; count++) {
+      const recordId = join(datePrefix, count ? `${name}(${count})${ext}` : originalFileName) // e.g., '2025-08-03/report.zip'
+      const meta: RecordLine = {
+        type: 'meta',
+        recordId,
+        uploaderId: session.userId,
+        uploaderName: this.getNickname(session),
+        channelId: session.channelId,
+        createdAt: Date.now(),
+        ...extra,
+      }
+      try {
+        await fs.writeFile(this.getRecordFilePath(recordId), serializeRecordLine(meta), { flag: 'wx' })
+        return recordId
+      } catch (error) {
+        if (error.code !== 'EEXIST') throw error
+      }
     }
-    const initialRecord = { recordId, uploaderId, messages: [] as MessageRecord[] }
-    await saveJsonFile(this.getRecordFilePath(recordId), initialRecord)
-    return recordId
   }
 
   /**
-   * @description 向指定的 JSON 记录文件中追加一条消息。
+   * @description 向指定的记录文件末尾追加一条消息。
    */
-  private async _addMessageToRecord(recordId: string, message: MessageRecord): Promise<void> {
+  private _addMessageToRecord(recordId: string, message: MessageRecord): Promise<void> {
+    return this.appendRecordLine(recordId, { type: 'message', ...message })
+  }
+
+  /**
+   * @description 向记录文件末尾追加一行。同一记录的写入按顺序排队执行，不会互相覆盖，也不需要重写整个文件。
+   */
+  private appendRecordLine(recordId: string, line: RecordLine): Promise<void> {
     const recordPath = this.getRecordFilePath(recordId)
-    try {
-      const record = await loadJsonFile(recordPath, null)
-      if (record) {
-        record.messages.push(message)
-        await saveJsonFile(recordPath, record)
+    // 旧记录迁移完成前，记录文件可能尚未转换为 JSONL 格式，写入需等待迁移完成
+    const previous = this.recordWriteQueues.get(recordId) ?? this.ready
+    const task = previous
+      .then(async () => {
+        // 记录已被回滚或归档时不再写入，避免重新创建出不完整的记录文件
+        if (!(await fileExists(recordPath))) return
+        await fs.appendFile(recordPath, serializeRecordLine(line))
+      })
+      .catch(error => {
+        this.ctx.logger.error(`无法向记录文件 ${recordId}${RECORD_FILE_EXT} 中添加内容:`, error)
+      })
+    this.recordWriteQueues.set(recordId, task)
+    // 队列执行完毕后移除，避免 Map 无限增长
+    task.then(() => {
+      if (this.recordWriteQueues.get(recordId) === task) this.recordWriteQueues.delete(recordId)
+    })
+    return task
+  }
+
+  /**
+   * @description 将日志目录中旧版本的 JSON 记录文件转换为 JSONL 格式。已归档的旧记录保持原样，读取时兼容。
+   */
+  private async migrateLegacyRecords(): Promise<void> {
+    let migrated = 0
+    const dates = (await fs.readdir(this.dataDir).catch((): string[] => [])).filter(date => DATE_DIR_REGEX.test(date))
+    for (const date of dates) {
+      const files = await fs.readdir(join(this.dataDir, date))
+      const fileSet = new Set(files)
+      for (const file of files) {
+        const name = this.getLegacyRecordName(file, fileSet)
+        if (!name || fileSet.has(`${name}${RECORD_FILE_EXT}`)) continue
+        const legacyPath = join(this.dataDir, date, file)
+        const record = await loadJsonFile<RecordData>(legacyPath, null)
+        if (!Array.isArray(record?.messages)) continue
+
+        const { messages, ...meta } = record
+        const lines: RecordLine[] = [{ type: 'meta', ...meta }, ...messages.map(message => ({ type: 'message' as const, ...message }))]
+        await fs.writeFile(join(this.dataDir, date, `${name}${RECORD_FILE_EXT}`), lines.map(serializeRecordLine).join(''))
+        await deleteFile(legacyPath)
+        migrated++
       }
-    } catch (error) {
-      this.ctx.logger.error(`无法向记录文件 ${recordId}.json 中添加消息:`, error)
     }
+    if (migrated) this.ctx.logger.info(`已将 ${migrated} 个旧版本记录文件迁移为 JSONL 格式`)
   }
 
   /**
-   * @description 从消息元素或 OneBot API 中提取文件详细信息。
+   * @description 将旧版本以 `文件名_文件大小` 为键的文件索引改为以文件内容的摘要为键，报告文件已不存在的条目直接丢弃。
    */
-  private async _extractFileInfo(element: any, session: Session): Promise<{ name: string; size: number; url: string } | null> {
-    // 优先尝试使用 onebot.getMsg API，因为它通常能提供更可靠的文件信息
-    try {
-      const msg = await session.onebot.getMsg(session.messageId)
-      const fileData = Array.isArray(msg.message) ? msg.message.find(el => el.type === 'file')?.data : null
-      if (fileData?.file && fileData.file_size && fileData.url) {
-        return { name: fileData.file, size: parseInt(fileData.file_size, 10), url: fileData.url }
-      }
-    } catch (error) {
-      this.ctx.logger.warn('调用 onebot.getMsg API 失败，将回退到使用消息元素属性:', error)
+  private async migrateFileIndex(): Promise<void> {
+    const legacyKeys = Object.keys(this.fileIndex).filter(key => !FILE_HASH_REGEX.test(key))
+    if (!legacyKeys.length) return
+    for (const key of legacyKeys) {
+      const recordId = this.fileIndex[key]
+      delete this.fileIndex[key]
+      const { dir, base } = parse(recordId)
+      const data = await this.readLogFile(dir, base)
+      if (data) this.fileIndex[hashBuffer(data)] ??= recordId
     }
-    // API 调用失败或信息不全时，回退到使用消息元素中的 attrs
-    const { file, 'file-size': fileSize, src } = element.attrs
-    if (file && fileSize && src) {
-      return { name: file, size: parseInt(fileSize, 10), url: src }
+    await this.flushState()
+  }
+
+  // --- 记录导出 ---
+
+  // 报告类型的显示文本，例如 `HMCL 游戏崩溃报告`，未识别时返回 null
+  private describeReport(record: RecordData): string | null {
+    const launcher = this.getRecordLauncher(record)?.name
+    const type = record.reportType ? REPORT_TYPE_LABELS[record.reportType] : null
+    return [launcher, type].filter(Boolean).join(' ') || null
+  }
+
+  private async renderMarkdown(record: RecordData): Promise<string> {
+    const date = parse(record.recordId).dir
+    const lines = [`# ${record.recordId}`, '', `- 上传者：${this.resolveNickname({ userId: record.uploaderId, nickname: record.uploaderName })} (${record.uploaderId})`]
+    if (record.channelId) lines.push(`- 群组：${record.channelId}`)
+    if (record.createdAt) lines.push(`- 上传时间：${this.formatTime(record.createdAt)}`)
+    if (record.status) lines.push(`- 处理结果：${RECORD_STATUS_LABELS[record.status]}${record.summary ? `（${record.summary}）` : ''}`)
+    const report = this.describeReport(record)
+    if (report) lines.push(`- 报告类型：${report}`)
+    if (record.sourceUrl) lines.push(`- 来源：${record.sourceUrl}`)
+    if (record.redactions) lines.push(`- 已脱敏：${formatRedactions(record.redactions)}`)
+    if (record.redactionFailed) lines.push('- 报告文件无法完整脱敏，未保存')
+    lines.push('')
+    for (const msg of record.messages) {
+      // 导出的文件单独发送，图片以 data URI 内联，不依赖记录目录中的图片文件
+      const parts = msg.content.split(IMAGE_PLACEHOLDER_REGEX)
+      const body = await Promise.all(
+        parts.map(async (part, index) => {
+          if (index % 2 === 0) return part
+          const data = await this.readLogFile(date, part)
+          if (!data) return `[图片缺失: ${part}]`
+          const mimeType = IMAGE_MIME_TYPES[parse(part).ext.toLowerCase()] ?? 'image/jpeg'
+          return `![${part}](data:${mimeType};base64,${data.toString('base64')})`
+        }),
+      )
+      const content = body.join('')
+      lines.push(`**${this.resolveNickname(msg)}** \`${this.formatTime(msg.timestamp)}\``, '', content, '')
     }
-    return null
+    return lines.join('\n')
+  }
+
+  private async renderHtml(record: RecordData, links: { title: string; href: string }[] = []): Promise<string> {
+    const date = parse(record.recordId).dir
+    const items = await Promise.all(
+      record.messages.map(async msg => {
+        // 按图片占位符拆分消息，文本部分转义，图片部分内联为 data URI
+        const parts = msg.content.split(IMAGE_PLACEHOLDER_REGEX)
+        const body = await Promise.all(
+          parts.map(async (part, index) => {
+            if (index % 2 === 0) return escapeHtml(part).replace(AMBIGUOUS_MESSAGE_PREFIX.trim(), '<span class="cross">$&</span>')
+            const mimeType = IMAGE_MIME_TYPES[parse(part).ext.toLowerCase()] ?? 'image/jpeg'
+            const data = await this.readLogFile(date, part)
+            if (!data) return `<span class="missing">[图片缺失: ${escapeHtml(part)}]</span>`
+            return `<img src="data:${mimeType};base64,${data.toString('base64')}" alt="${escapeHtml(part)}">`
+          }),
+        )
+        const uploaderClass = msg.userId === record.uploaderId ? ' uploader' : ''
+        return `<div class="msg${uploaderClass}"><div class="meta"><b>${escapeHtml(this.resolveNickname(msg))}</b> <span>${this.formatTime(msg.timestamp)}</span></div><div class="body">${body.join('')}</div></div>`
+      }),
+    )
+    const info = [`上传者：${escapeHtml(this.resolveNickname({ userId: record.uploaderId, nickname: record.uploaderName }))} (${record.uploaderId})`]
+    if (record.channelId) info.push(`群组：${record.channelId}`)
+    if (record.createdAt) info.push(`上传时间：${this.formatTime(record.createdAt)}`)
+    if (record.status) info.push(`处理结果：${RECORD_STATUS_LABELS[record.status]}${record.summary ? `（${escapeHtml(record.summary)}）` : ''}`)
+    const report = this.describeReport(record)
+    if (report) info.push(`报告类型：${escapeHtml(report)}`)
+    if (record.sourceUrl) info.push(`来源：<a href="${escapeHtml(record.sourceUrl)}">${escapeHtml(record.sourceUrl)}</a>`)
+    if (record.redactions) info.push(`已脱敏：${escapeHtml(formatRedactions(record.redactions))}`)
+    if (record.redactionFailed) info.push('报告文件无法完整脱敏，未保存')
+    if (links.length) info.push(links.map(link => `<a href="${escapeHtml(link.href)}">${escapeHtml(link.title)}</a>`).join(' | '))
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(record.recordId)}</title>
+<style>
+body { font-family: sans-serif; max-width: 860px; margin: 24px auto; padding: 0 16px; color: #333; }
+.msg { border-left: 3px solid #4a6ee0; margin: 12px 0; padding: 4px 12px; }
+.msg.uploader { border-color: #e0574a; }
+.meta span { color: #888; font-size: 12px; }
+.body { white-space: pre-wrap; word-break: break-all; margin-top: 4px; }
+.body img { display: block; max-width: 100%; margin: 6px 0; }
+.cross { color: #e0a84a; }
+.missing { color: #aaa; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(record.recordId)}</h2>
+<p>${info.join('<br>')}</p>
+${items.join('\n')}
+</body>
+</html>
+`
   }
 
+  private async renderForwardContent(msg: MessageRecord, date: string): Promise<h[]> {
+    const parts = msg.content.split(IMAGE_PLACEHOLDER_REGEX)
+    const elements = await Promise.all(
+      parts.map(async (part, index) => {
+        if (index % 2 === 0) return h.text(part)
+        const data = await this.readLogFile(date, part)
+        return data ? h.image(data, IMAGE_MIME_TYPES[parse(part).ext.toLowerCase()] ?? 'image/jpeg') : h.text(`[图片缺失: ${part}]`)
+      }),
+    )
+    elements.unshift(h.text(`[${this.formatTime(msg.timestamp)}] `))
+    return elements
+  }
+
+  private resolveNickname(msg: { userId: string; nickname?: string }): string {
+    return this.config.whitelist?.find(item => item.userId === msg.userId)?.nickname || msg.nickname || msg.userId
+  }
+
+  private getNickname = (session: Session): string | undefined => session.author?.nick || session.author?.name || session.username
+
+  private formatTime = (timestamp?: number): string => (timestamp ? new Date(timestamp).toLocaleString('zh-CN', { hour12: false }) : '--')
+
   // --- 状态管理 ---
 
   private async loadState(): Promise<void> {
     const state = await loadJsonFile<ServiceState>(this.stateFilePath, { fileIndex: {}, activeFiles: {} })
-    this.fileIndex = state.fileIndex || {}
-    this.activeFiles = state.activeFiles || {}
+    // 加载完成前产生的文件索引与活跃会话以内存中的为准
+    this.fileIndex = { ...state.fileIndex, ...this.fileIndex }
+    const activeFiles = state.activeFiles || {}
+    for (const [channelId, sessions] of Object.entries(this.activeFiles)) activeFiles[channelId] = { ...activeFiles[channelId], ...sessions }
+    this.activeFiles = activeFiles
   }
 
   private async saveState(): Promise<void> {
@@ -312,10 +905,77 @@ export class FileRecordService {
     await saveJsonFile(this.stateFilePath, state)
   }
 
+  /**
+   * @description 预约一次状态写入。延迟期间的多次状态变更只会写入一次。
+   */
+  private scheduleStateSave(): void {
+    if (this.stateFlushTimer) return
+    this.stateFlushTimer = this.ctx.setTimeout(() => this.flushState(), STATE_FLUSH_DELAY)
+  }
+
+  /**
+   * @description 立即写入状态，并取消已预约的延迟写入。状态文件的写入同样按顺序排队执行。
+   */
+  private flushState(): Promise<void> {
+    if (this.stateFlushTimer) {
+      this.stateFlushTimer()
+      this.stateFlushTimer = null
+    }
+    this.stateWriteQueue = this.stateWriteQueue.then(() => this.saveState())
+    return this.stateWriteQueue
+  }
+
   // --- 功能开关与判断 ---
 
+  private isValidRecordId = (recordId: string): boolean => !!recordId && !recordId.split(/[\\/]/).includes('..')
   private _getTargetFromReplyOrMention = (session: Session): string | null => session.elements.find(el => el.type === 'at')?.attrs?.id ?? (session.event as any).message?.quote?.user?.id ?? null
-  private isFileRecordAllowed = (channelId: string): boolean => [...FILE_RECORD_GROUPS, ...(this.config.additionalGroups || [])].includes(channelId)
+  public isFileRecordAllowed = (channelId: string): boolean => [...this.launcherRegistry.getGroupList('record'), ...(this.config.additionalGroups || [])].includes(channelId)
   private hasAllowedExtension = (fileName: string): boolean => ALLOWED_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext))
   private _isAllowedImageExtension = (fileName: string): boolean => ALLOWED_IMAGE_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext))
 }
+
+const serializeRecordLine = (line: RecordLine): string => `${JSON.stringify(line)}\n`
+
+/**
+ * @description 将 JSONL 记录文件的内容逐行合并为完整的记录，忽略写入中断产生的不完整行。
+ */
+function parseRecordLines(text: string): RecordData | null {
+  let record: RecordData | null = null
+  for (const raw of text.split('\n')) {
+    if (!raw.trim()) continue
+    let line: RecordLine
+    try {
+      line = JSON.parse(raw)
+    } catch {
+      continue
+    }
+    const { type, ...data } = line
+    if (type === 'meta') record = { ...(data as RecordMeta), messages: record?.messages ?? [] }
+    else if (type === 'message' && record) record.messages.push(data as MessageRecord)
+    else if (type === 'update' && record) {
+      // 脱敏次数逐次累加，其余字段以最新的为准
+      const { redactions, ...update } = data as Partial<RecordMeta>
+      Object.assign(record, update)
+      for (const [name, count] of Object.entries(redactions ?? {})) {
+        record.redactions = { ...record.redactions, [name]: (record.redactions?.[name] ?? 0) + count }
+      }
+    }
+  }
+  return record
+}
+
+/**
+ * @description 将用户输入的处理结果解析为 RecordStatus，支持英文名称、中文显示名称与别名。
+ */
+function parseRecordStatus(input: string): RecordStatus | null {
+  if (!input) return null
+  const value = input.trim().toLowerCase()
+  if (value in RECORD_STATUS_LABELS) return value as RecordStatus
+  const entry = Object.entries(RECORD_STATUS_LABELS).find(([, label]) => label === value)
+  return (entry?.[0] as RecordStatus) ?? RECORD_STATUS_ALIASES[value] ?? null
+}
+
+const formatRedactions = (redactions: RedactionCounts): string =>
+  Object.entries(redactions)
+    .map(([name, count]) => `${name} ${count} 处`)
+    .join('、')
@@ -1,34 +1,31 @@
+import { join } from 'path'
 import { Context, Session } from 'koishi'
 import { Config } from '../index'
-import { buildReplyElements } from '../utils'
-
-// 定义启动器名称的类型别名
-type LauncherName = 'hmcl' | 'pcl' | 'bakaxl'
-
-// 多启动器问题交流群的群号
-const MULTI_LAUNCHER_GROUP_ID = '958853931'
-
-// 各个启动器的相关配置
-const LAUNCHER_CONFIGS = {
-  hmcl: {
-    name: 'HMCL',
-    groupId: '666546887', // 主要群号 (报错反馈群)
-    groups: ['666546887', '633640264', '203232161', '201034984', '533529045', '744304553', '282845310', '482624681', '991620626', '657677715', '775084843'], // 所有相关群号
-    pattern: /minecraft-exported-(crash-info|logs)-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.(zip|log)$/i, // 匹配错误文件的正则表达式
-  },
-  pcl: {
-    name: 'PCL',
-    groupId: '978054335', // 主要群号 (报错反馈群)
-    groups: ['978054335', '1028074835'],
-    pattern: /错误报告-\d{4}-\d{1,2}-\d{1,2}_\d{2}\.\d{2}\.\d{2}\.zip$/i,
-  },
-  bakaxl: {
-    name: 'BakaXL',
-    groupId: MULTI_LAUNCHER_GROUP_ID, // BakaXL 的主群同时也是多功能群
-    groups: ['480455628', '377521448', MULTI_LAUNCHER_GROUP_ID],
-    pattern: /BakaXL-ErrorCan-\d{14}\.json$/i,
-  },
-} as const
+import { buildReplyElements, extractFileInfo, isUserWhitelisted, loadJsonFile, saveJsonFile } from '../utils'
+import { LauncherConfig, LauncherRegistryService } from './LauncherRegistryService'
+import { ReportSnifferService } from './ReportSnifferService'
+import { PasteFile } from './PasteLinkService'
+
+/**
+ * @description 一次发错群的记录：用户在某个启动器的群中发送了需要前往其他群处理的报告文件。
+ */
+export interface RedirectEvent {
+  time: number // 发送时间
+  channelId: string // 发送所在的群组
+  userId: string // 发送者 ID
+  fileLauncher: string // 文件所属的启动器标识
+  messageId?: string // 发送文件的消息 ID（旧记录中没有此字段）
+}
+
+// 发错群记录的保留天数
+const REDIRECT_LOG_DAYS = 180
+// 同一用户在此时间内（毫秒）连续发送的多个文件只计为一次发错群，例如报告与日志
+const REDIRECT_MERGE_WINDOW = 60 * 1000
+// 文件名无法识别时，下载并读取内容识别的最大文件大小
+const MAX_SNIFF_SIZE = 4 * 1024 * 1024
+// 查看发错群统计时最多列出的用户数与记录数
+const MAX_REDIRECT_USERS = 10
+const MAX_REDIRECT_EVENTS = 5
 
 /**
  * @class FileReplyService
@@ -37,8 +34,21 @@ const LAUNCHER_CONFIGS = {
 export class FileReplyService {
   // 用于存储待发送消息的定时器，以实现延迟发送和防刷屏功能
   private pending = new Map<string, NodeJS.Timeout>()
+  private redirectLogPath: string // 存放发错群记录的文件路径
+  private redirects: RedirectEvent[] = [] // 发错群记录，按时间由早到晚排列
 
-  constructor(private ctx: Context, private config: Config) {}
+  constructor(
+    private ctx: Context,
+    private config: Config,
+    dataPath: string,
+    private launcherRegistry: LauncherRegistryService,
+    private reportSniffer?: ReportSnifferService,
+  ) {
+    this.redirectLogPath = join(dataPath, 'redirects.json')
+    loadJsonFile<RedirectEvent[]>(this.redirectLogPath, []).then(redirects => {
+      this.redirects = [...redirects, ...this.redirects]
+    })
+  }
 
   /**
    * @method handleMessage
@@ -49,7 +59,7 @@ export class FileReplyService {
     const { elements, channelId, content } = session
 
     // 定义需要检测闪传的主要群组ID
-    const mainGroupIds = [LAUNCHER_CONFIGS.hmcl.groupId, LAUNCHER_CONFIGS.pcl.groupId, MULTI_LAUNCHER_GROUP_ID];
+    const mainGroupIds = [...this.launcherRegistry.getLaunchers().map(launcher => launcher.groupId), ...this.launcherRegistry.getGroupList('multi')];
 
     // 通过严格匹配消息的开头、结尾和关键内容，精准识别闪传消息，避免误触发
     const isFlashTransferMessage = elements?.some(el => {
@@ -64,7 +74,7 @@ export class FileReplyService {
       return; // 结束处理，避免后续逻辑干扰
     }
 
-    const launcher = this.getLauncherByChannel(channelId)
+    const launcher = this.launcherRegistry.getLauncherByGroup(channelId)
 
     // 仅在已明确归属启动器的群组中执行主要逻辑
     if (launcher) {
@@ -72,10 +82,15 @@ export class FileReplyService {
       // 如果消息中包含文件元素
       if (fileElement) {
         const fileName = fileElement.attrs.file || ''
-        const matchedLauncher = this.detectLauncherFromFile(fileName)
-        // 如果文件名匹配到了某个启动器的格式
+        const matchedLauncher = this.launcherRegistry.detectLauncherFromFile(fileName)
+        // 如果文件名匹配到了某个启动器
         if (matchedLauncher) {
           await this.handleLauncherFile(session, launcher, matchedLauncher)
+        } else {
+          // 文件名无法识别时（如被重命名的报告、原版崩溃报告），在后台下载并读取文件内容识别，不阻塞后续服务
+          this.sniffLauncher(session, fileElement, launcher)
+            .then(sniffed => sniffed && this.handleLauncherFile(session, launcher, sniffed))
+            .catch(error => this.ctx.logger.warn('根据文件内容识别启动器失败:', error))
         }
       }
 
@@ -87,48 +102,71 @@ export class FileReplyService {
   }
 
   /**
-   * @method getLauncherByChannel
-   * @description 根据群号判断当前群组属于哪个启动器。
-   * @param channelId 频道（群）ID
-   * @returns 启动器名称或 null
+   * @method handlePasteFile
+   * @description 处理通过粘贴链接分享的日志，按文件名与内容识别启动器后，与上传的文件一样给出报错指引。
+   * @param session 当前会话
+   * @param file 从粘贴链接抓取的日志
    */
-  private getLauncherByChannel(channelId: string): LauncherName | null {
-    // 注意：查找顺序会影响多功能群的归属，当前设计将多功能群归属于 BakaXL 是符合预期的。
-    const entry = Object.entries(LAUNCHER_CONFIGS).find(([, cfg]) => (cfg.groups as readonly string[]).includes(channelId))
-    return (entry?.[0] as LauncherName) || null
+  public async handlePasteFile(session: Session, file: PasteFile): Promise<void> {
+    const launcher = this.launcherRegistry.getLauncherByGroup(session.channelId)
+    if (!launcher) return
+    const matchedLauncher = await this.identifyLauncher(file.name, file.data, launcher)
+    if (matchedLauncher) await this.handleLauncherFile(session, launcher, matchedLauncher)
   }
 
   /**
-   * @method detectLauncherFromFile
-   * @description 根据文件名检测文件属于哪个启动器。
-   * @param fileName 文件名
-   * @returns 启动器名称或 null
+   * @method getRedirects
+   * @description 获取指定时间之后的发错群记录。
+   * @param since 起始时间戳
+   * @returns 发错群记录列表
    */
-  private detectLauncherFromFile(fileName: string): LauncherName | null {
-    const entry = Object.entries(LAUNCHER_CONFIGS).find(([, cfg]) => cfg.pattern.test(fileName))
-    return (entry?.[0] as LauncherName) || null
+  public getRedirects(since = 0): RedirectEvent[] {
+    return this.redirects.filter(event => event.time >= since)
+  }
+
+  /**
+   * @method getRedirectSummary
+   * @description 查看统计时长内的发错群次数。未指定用户时按次数列出所有用户，指定用户时列出其最近的发错群记录。
+   * @param userId 可选，要查看的用户 ID
+   * @returns 发错群统计文本
+   */
+  public getRedirectSummary(userId?: string): string {
+    const windowHours = this.config.redirectWindow ?? 24
+    const events = this.getRedirects(Date.now() - windowHours * 3600 * 1000)
+    const formatEvent = (event: RedirectEvent) =>
+      `${new Date(event.time).toLocaleString('zh-CN', { hour12: false })} 于群 ${event.channelId}（${this.launcherRegistry.getLauncher(event.fileLauncher)?.name ?? event.fileLauncher} 报告）`
+
+    if (userId) {
+      const userEvents = events.filter(event => event.userId === userId)
+      if (!userEvents.length) return `用户 ${userId} 在 ${windowHours} 小时内没有发错群`
+      return [`用户 ${userId} 在 ${windowHours} 小时内发错群 ${userEvents.length} 次：`, ...userEvents.slice(-MAX_REDIRECT_EVENTS).reverse().map(formatEvent)].join('\n')
+    }
+
+    const byUser = new Map<string, RedirectEvent[]>()
+    for (const event of events) byUser.set(event.userId, [...(byUser.get(event.userId) ?? []), event])
+    if (!byUser.size) return `${windowHours} 小时内没有发错群记录`
+    const users = [...byUser].sort((a, b) => b[1].length - a[1].length).slice(0, MAX_REDIRECT_USERS)
+    return [`${windowHours} 小时内的发错群统计：`, ...users.map(([id, list]) => `${id}：${list.length} 次，最近 ${formatEvent(list[list.length - 1])}`)].join('\n')
   }
 
   /**
    * @method handleLauncherFile
    * @description 处理匹配到的启动器文件的核心逻辑。
    * @param session 当前会话
-   * @param currentGroupLauncher 当前群组所属的启动器类型
-   * @param matchedFileLauncher 文件所匹配到的启动器类型
+   * @param currentLauncherInfo 当前群组所属的启动器
+   * @param matchedLauncherInfo 文件所匹配到的启动器
    */
-  private async handleLauncherFile(session: Session, currentGroupLauncher: LauncherName, matchedFileLauncher: LauncherName): Promise<void> {
+  private async handleLauncherFile(session: Session, currentLauncherInfo: LauncherConfig, matchedLauncherInfo: LauncherConfig): Promise<void> {
     const { channelId } = session
 
-    // 规则：多功能群 (BakaXL主群) 不进行任何提示
-    if (channelId === MULTI_LAUNCHER_GROUP_ID) {
+    // 规则：多启动器交流群 (如 BakaXL 主群) 不进行任何提示
+    if (this.launcherRegistry.getGroupList('multi').includes(channelId)) {
       return
     }
 
-    const currentLauncherInfo = LAUNCHER_CONFIGS[currentGroupLauncher]
-    const matchedLauncherInfo = LAUNCHER_CONFIGS[matchedFileLauncher]
     let messageToSend: string | null = null
 
-    if (currentGroupLauncher === matchedFileLauncher) {
+    if (currentLauncherInfo.id === matchedLauncherInfo.id) {
       // 文件类型与当前群组所属的启动器类型匹配
       // 检查当前群是否是该启动器的主要报错群
       if (channelId !== currentLauncherInfo.groupId) {
@@ -141,8 +179,16 @@ export class FileReplyService {
       messageToSend = `本群为「${currentLauncherInfo.name}」用户群，请前往「${matchedLauncherInfo.name}」报错群（${matchedLauncherInfo.groupId}）解决问题。`
     }
 
-    // 如果有需要发送的消息，则执行发送逻辑
+    // 如果有需要发送的消息，则记录本次发错群并执行发送逻辑。白名单用户（如转发用户文件的管理员）不计入发错群次数；
+    // 同一条消息中的多个文件，以及短时间内连续发送的文件只计一次
     if (messageToSend) {
+      const { userId, messageId } = session
+      const last = this.redirects.filter(event => event.userId === userId && event.channelId === channelId).at(-1)
+      const counted = last && ((messageId && last.messageId === messageId) || Date.now() - last.time < REDIRECT_MERGE_WINDOW)
+      if (!isUserWhitelisted(userId, this.config) && !counted) {
+        await this.recordRedirect({ time: Date.now(), channelId, userId, fileLauncher: matchedLauncherInfo.id, messageId })
+      }
+      const sendGuidance = () => this.sendGuidance(session, messageToSend, matchedLauncherInfo)
       if (this.config.preventDup) {
         const timer = this.pending.get(channelId)
         if (timer) clearTimeout(timer) // 清除上一个待发送的提示
@@ -151,17 +197,85 @@ export class FileReplyService {
         this.pending.set(
           channelId,
           setTimeout(async () => {
-            await session.send(buildReplyElements(session, messageToSend, undefined, this.config))
+            await sendGuidance()
             this.pending.delete(channelId) // 发送后清除定时器
           }, 3000),
         )
       } else {
         // 直接发送提示
-        await session.send(buildReplyElements(session, messageToSend, undefined, this.config))
+        await sendGuidance()
+      }
+    }
+  }
+
+  /**
+   * @method sendGuidance
+   * @description 根据用户在统计时长内的发错群次数逐级发送提示：首次仅回复；达到@次数时@用户并附上加群链接；达到禁言次数时再短暂禁言。
+   * @param session 当前会话
+   * @param message 基础提示内容
+   * @param matchedLauncherInfo 文件所属的启动器
+   */
+  private async sendGuidance(session: Session, message: string, matchedLauncherInfo: LauncherConfig): Promise<void> {
+    const { userId, channelId } = session
+    const windowHours = this.config.redirectWindow ?? 24
+    // 白名单用户只发送提示，不@也不禁言
+    const count = isUserWhitelisted(userId, this.config) ? 0 : this.getRedirects(Date.now() - windowHours * 3600 * 1000).filter(event => event.userId === userId).length
+    const mentionCount = this.config.redirectMentionCount ?? 2
+    const muteCount = this.config.redirectMuteCount ?? 0
+    const shouldMention = mentionCount > 0 && count >= mentionCount
+    const shouldMute = muteCount > 0 && count >= muteCount
+
+    const lines = [message]
+    if (shouldMention) {
+      lines.push(`这是你 ${windowHours} 小时内第 ${count} 次发错群${matchedLauncherInfo.joinLink ? `，加群链接：${matchedLauncherInfo.joinLink}` : '。'}`)
+    }
+    const muteMinutes = this.config.redirectMuteDuration ?? 5
+    if (shouldMute) lines.push(`已禁言 ${muteMinutes} 分钟，请前往对应的群组提问。`)
+    await session.send(buildReplyElements(session, lines.join('\n'), shouldMention ? userId : undefined, this.config))
+
+    if (shouldMute) {
+      try {
+        await session.onebot.setGroupBan(+channelId, +userId, muteMinutes * 60)
+      } catch (error) {
+        this.ctx.logger.warn(`禁言多次发错群的用户 ${userId} 失败 (群: ${channelId}):`, error)
       }
     }
   }
 
+  /**
+   * @method sniffLauncher
+   * @description 下载较小的报告文件并根据内容识别启动器。报告记录同时记录该文件时共用同一次下载。
+   * @param session 当前会话
+   * @param fileElement 消息中的文件元素
+   * @param currentLauncherInfo 当前群组所属的启动器
+   * @returns 文件所属的启动器，无法识别或不是报告时返回 null。
+   */
+  private async sniffLauncher(session: Session, fileElement: any, currentLauncherInfo: LauncherConfig): Promise<LauncherConfig | null> {
+    if (!this.reportSniffer?.isSniffable(fileElement.attrs.file || '')) return null
+    const fileInfo = await extractFileInfo(this.ctx, fileElement, session)
+    if (!fileInfo || fileInfo.size > MAX_SNIFF_SIZE) return null
+    try {
+      const data = await this.reportSniffer.download(session.messageId, fileInfo.name, fileInfo.url)
+      return await this.identifyLauncher(fileInfo.name, data, currentLauncherInfo)
+    } catch (error) {
+      this.ctx.logger.warn(`下载文件识别报告类型失败: ${fileInfo.name}`, error)
+      return null
+    }
+  }
+
+  /**
+   * @method identifyLauncher
+   * @description 根据文件名与内容识别报告所属的启动器。无法识别启动器的游戏崩溃报告、JVM 崩溃日志与游戏日志视为当前群组所属启动器的报告。
+   * @param fileName 文件名
+   * @param data 文件内容
+   * @param currentLauncherInfo 当前群组所属的启动器
+   * @returns 文件所属的启动器，无法识别或不是报告时返回 null。
+   */
+  private async identifyLauncher(fileName: string, data: Buffer, currentLauncherInfo: LauncherConfig): Promise<LauncherConfig | null> {
+    const report = (await this.reportSniffer?.identify(fileName, data)) ?? { launcher: this.launcherRegistry.detectLauncherFromFile(fileName), type: null }
+    return report.launcher ?? (report.type ? currentLauncherInfo : null)
+  }
+
   /**
    * @method checkCancelDelay
    * @description 检查用户发送的后续消息内容，如果包含了任一启动器群号，则取消待发送的指引消息。
@@ -171,7 +285,7 @@ export class FileReplyService {
   private checkCancelDelay(content: string, channelId: string): void {
     if (this.pending.has(channelId)) {
       // 检查消息中是否包含了任何一个已知启动器的群号
-      const shouldCancel = Object.values(LAUNCHER_CONFIGS).some(cfg => content.includes(cfg.groupId))
+      const shouldCancel = this.launcherRegistry.getLaunchers().some(cfg => content.includes(cfg.groupId))
       if (shouldCancel) {
         const timer = this.pending.get(channelId)
         if (timer) {
@@ -181,4 +295,15 @@ export class FileReplyService {
       }
     }
   }
+
+  /**
+   * @method recordRedirect
+   * @description 记录一次发错群，并清理超过保留天数的旧记录。
+   * @param event 发错群记录
+   */
+  private async recordRedirect(event: RedirectEvent): Promise<void> {
+    const expireBefore = Date.now() - REDIRECT_LOG_DAYS * 86400 * 1000
+    this.redirects = [...this.redirects.filter(item => item.time >= expireBefore), event]
+    await saveJsonFile(this.redirectLogPath, this.redirects)
+  }
 }
@@ -1,12 +1,14 @@
 import { join } from 'path'
 import { Context, h, Session } from 'koishi'
 import { Config } from '../index'
-import { loadJsonFile, saveJsonFile } from '../utils'
+import { loadJsonFile, saveJsonFile, checkKeywords, describeMatches, validateRegex, notifyAdmins, RegexFailure, exportRuleSet, parseRuleSet, diffRuleSet, formatRuleSetDiff, confirmAction, applyRuleChanges, isSameRule, RuleSetFormat, RuleSetImportMode } from '../utils'
+import { RuleHistoryService } from './RuleHistoryService'
 
 // 转发关键词的配置接口
 interface FwdKeywordConfig {
   text: string   // 关键词文本
   regex?: string // 可选的正则表达式
+  disabled?: string // 停用原因，正则表达式无效或匹配超时时自动停用，重新设置正则后恢复
 }
 
 /**
@@ -16,9 +18,13 @@ interface FwdKeywordConfig {
 export class ForwardingService {
   private fwdKeywords: FwdKeywordConfig[] = []
   private fwdKeywordsFilePath: string // fwd_keywords.json 的路径
+  private exportDir: string // 存放导出规则集的目录
+  private history: RuleHistoryService<FwdKeywordConfig> // 转发关键词的修改历史
 
   constructor(private ctx: Context, private config: Config, dataPath: string) {
     this.fwdKeywordsFilePath = join(dataPath, 'fwd_keywords.json')
+    this.exportDir = join(dataPath, 'exports')
+    this.history = new RuleHistoryService(ctx, dataPath, 'fwd_keyword_history.json')
     this.loadFwdKeywords().catch(err => ctx.logger.error('加载转发关键词失败:', err))
   }
 
@@ -39,7 +45,7 @@ export class ForwardingService {
    */
   public listFwdKeywords(): string {
     if (!this.fwdKeywords.length) return '当前没有配置转发关键词'
-    const keywordList = this.fwdKeywords.map(kw => kw.text).join(' | ')
+    const keywordList = this.fwdKeywords.map(kw => (kw.disabled ? `${kw.text}（已停用：${kw.disabled}）` : kw.text)).join(' | ')
     return `可用转发关键词列表：\n${keywordList}`
   }
 
@@ -47,14 +53,17 @@ export class ForwardingService {
    * @method addFwdKeyword
    * @description 添加一个新的转发关键词。
    * @param text 要添加的关键词
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async addFwdKeyword(text: string): Promise<string> {
+  public async addFwdKeyword(text: string, session: Session): Promise<string> {
     if (this.fwdKeywords.some(kw => kw.text === text)) {
       return `转发关键词「${text}」已存在`
     }
-    this.fwdKeywords.push({ text })
+    const keyword: FwdKeywordConfig = { text }
+    this.fwdKeywords.push(keyword)
     await this.saveFwdKeywords()
+    await this.history.record(session.userId, '添加', [{ after: keyword }])
     return `成功添加转发关键词「${text}」`
   }
 
@@ -62,16 +71,18 @@ export class ForwardingService {
    * @method removeFwdKeyword
    * @description 删除一个转发关键词。
    * @param text 要删除的关键词
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async removeFwdKeyword(text: string): Promise<string> {
+  public async removeFwdKeyword(text: string, session: Session): Promise<string> {
     const index = this.fwdKeywords.findIndex(kw => kw.text === text)
     if (index === -1) {
       return `未找到转发关键词「${text}」`
     }
-    this.fwdKeywords.splice(index, 1)
+    const [removed] = this.fwdKeywords.splice(index, 1)
     await this.saveFwdKeywords()
-    return `成功删除转发关键词「${text}」`
+    const revision = await this.history.record(session.userId, '删除', [{ before: removed }])
+    return `成功删除转发关键词「${text}」，可使用 mcl.fu ${revision.id} 撤销`
   }
 
   /**
@@ -79,9 +90,10 @@ export class ForwardingService {
    * @description 重命名一个转发关键词。
    * @param oldText 旧关键词
    * @param newText 新关键词
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async renameFwdKeyword(oldText: string, newText: string): Promise<string> {
+  public async renameFwdKeyword(oldText: string, newText: string, session: Session): Promise<string> {
     if (oldText === newText) return '新旧关键词不能相同'
     const keyword = this.fwdKeywords.find(kw => kw.text === oldText)
     if (!keyword) {
@@ -90,8 +102,10 @@ export class ForwardingService {
     if (this.fwdKeywords.some(kw => kw.text === newText)) {
       return `转发关键词「${newText}」已存在`
     }
+    const before = structuredClone(keyword)
     keyword.text = newText
     await this.saveFwdKeywords()
+    await this.history.record(session.userId, '重命名', [{ before, after: keyword }])
     return `成功重命名转发关键词「${oldText}」为「${newText}」`
   }
 
@@ -100,28 +114,142 @@ export class ForwardingService {
    * @description 为转发关键词配置或移除正则表达式。
    * @param text 目标关键词
    * @param regex 正则表达式字符串，为空则表示移除
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async toggleFwdKeywordRegex(text: string, regex?: string): Promise<string> {
+  public async toggleFwdKeywordRegex(text: string, regex: string | undefined, session: Session): Promise<string> {
     const keyword = this.fwdKeywords.find(kw => kw.text === text)
     if (!keyword) {
       return `未找到转发关键词「${text}」`
     }
 
+    const before = structuredClone(keyword)
     if (regex) {
+      const error = validateRegex(regex)
+      if (error) return error
       keyword.regex = regex
+      delete keyword.disabled
       await this.saveFwdKeywords()
-      return `成功为转发关键词「${text}」设置了正则表达式`
+      await this.history.record(session.userId, '设置正则', [{ before, after: keyword }])
+      return `成功为转发关键词「${text}」设置了正则表达式${before.disabled ? '，关键词已恢复启用' : ''}`
     } else {
       if (!keyword.regex) {
         return `转发关键词「${text}」没有配置正则表达式`
       }
       delete keyword.regex
+      delete keyword.disabled
       await this.saveFwdKeywords()
+      await this.history.record(session.userId, '移除正则', [{ before, after: keyword }])
       return `成功移除了转发关键词「${text}」的正则表达式`
     }
   }
 
+  /**
+   * @method exportFwdKeywords
+   * @description 将所有转发关键词导出为规则集文件并发送到当前会话。
+   * @param format 文件格式
+   * @param session 当前会话
+   * @returns 没有关键词时返回提示信息。
+   */
+  public async exportFwdKeywords(format: RuleSetFormat, session: Session): Promise<string | void> {
+    if (!this.fwdKeywords.length) return '当前没有配置转发关键词'
+    return exportRuleSet(session, this.exportDir, 'fwd_keywords', this.fwdKeywords, format)
+  }
+
+  /**
+   * @method importFwdKeywords
+   * @description 导入转发关键词规则集。先发送与当前关键词的差异预览，用户确认后再写入。
+   * @param session 当前会话，用于发送预览并等待确认
+   * @param file 规则文件的文件名与内容
+   * @param mode 导入模式
+   * @returns 操作结果的提示信息。
+   */
+  public async importFwdKeywords(session: Session, file: { name: string; content: string }, mode: RuleSetImportMode): Promise<string> {
+    const items = parseRuleSet(file.content, file.name)
+    if (typeof items === 'string') return items
+    const incoming: FwdKeywordConfig[] = []
+    for (const [index, item] of items.entries()) {
+      const rule = item as Record<string, unknown>
+      if (!rule || typeof rule !== 'object') return `第 ${index + 1} 条规则无效：规则应为对象`
+      if (typeof rule.text !== 'string' || !rule.text) return `第 ${index + 1} 条规则无效：缺少关键词 text`
+      if (rule.regex !== undefined && typeof rule.regex !== 'string') return `第 ${index + 1} 条规则无效：关键词「${rule.text}」的 regex 应为字符串`
+      const error = rule.regex ? validateRegex(rule.regex as string) : null
+      if (error) return `第 ${index + 1} 条规则无效：关键词「${rule.text}」的${error}`
+      if (incoming.some(kw => kw.text === rule.text)) return `规则文件中的转发关键词「${rule.text}」重复`
+      incoming.push(rule.regex ? { text: rule.text, regex: rule.regex as string } : { text: rule.text })
+    }
+
+    const preview = diffRuleSet(this.fwdKeywords, incoming, mode)
+    if (!preview.added.length && !preview.changed.length && !preview.removed.length) return '规则文件与当前转发关键词一致，无需导入'
+    if (!(await confirmAction(session, formatRuleSetDiff(preview, `转发关键词（${mode === 'replace' ? '替换' : '合并'}模式）`)))) return '已取消导入'
+
+    // 等待确认期间关键词可能被修改，以最新的关键词重新计算差异
+    const diff = diffRuleSet(this.fwdKeywords, incoming, mode)
+    this.fwdKeywords = diff.result
+    await this.saveFwdKeywords()
+    await this.history.record(session.userId, mode === 'replace' ? '导入（替换）' : '导入（合并）', [
+      ...diff.added.map(after => ({ after })),
+      ...diff.changed,
+      ...diff.removed.map(before => ({ before })),
+    ])
+    return `成功导入转发关键词：新增 ${diff.added.length} 条，修改 ${diff.changed.length} 条，删除 ${diff.removed.length} 条`
+  }
+
+  /**
+   * @method getHistory
+   * @description 查看转发关键词的修改历史。
+   * @param text 可选，只查看该关键词的修改历史
+   * @returns 修改历史文本。
+   */
+  public getHistory(text?: string): string {
+    return this.history.formatHistory('转发关键词', text)
+  }
+
+  /**
+   * @method undoRevision
+   * @description 撤销一次修改，将其修改的转发关键词恢复为修改前的内容。撤销本身也会记为一次修改，可以再次撤销。
+   * @param id 可选，修订号，未提供时撤销最近的修改
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async undoRevision(id: number | undefined, session: Session): Promise<string> {
+    const revision = this.history.getRevision(id)
+    if (!revision) return id === undefined ? '没有可撤销的修改' : `未找到修订 #${id}`
+    const changes = [...revision.changes].reverse().map(({ before, after }) => ({ from: after, to: before }))
+    return this.applyHistoryChanges(`撤销 #${revision.id}`, changes, session)
+  }
+
+  /**
+   * @method rollbackFwdKeyword
+   * @description 将转发关键词回滚到指定修订之后的内容。若该修订删除了关键词，则回滚为删除。
+   * @param text 目标关键词，修订中重命名前后的名称均可
+   * @param id 修订号
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async rollbackFwdKeyword(text: string, id: number, session: Session): Promise<string> {
+    const version = this.history.getVersion(text, id)
+    if (typeof version === 'string') return version
+    // 修订重命名过该转发关键词时，按修订后、修订前的名称依次查找当前的规则并替换
+    const current = version.names.map(name => this.fwdKeywords.find(kw => kw.text === name)).find(Boolean)
+    if (!current && !version.rule) return `转发关键词「${text}」不存在，无需回滚`
+    if (current && version.rule && isSameRule(current, version.rule)) return `转发关键词「${text}」已是修订 #${id} 的内容`
+    return this.applyHistoryChanges(`回滚至 #${id}`, [{ from: current, to: version.rule }], session)
+  }
+
+  /**
+   * @method testFwdKeywords
+   * @description 列出文本会匹配的所有转发关键词及匹配方式，用于调试规则，不转发消息。
+   * @param content 要检查的文本
+   * @returns 匹配结果文本。
+   */
+  public testFwdKeywords(content: string): string {
+    const lines = describeMatches(content, this.fwdKeywords)
+    if (!lines.length) return '转发关键词：无匹配'
+    const header = this.config.forwardTarget ? '转发关键词（★ 为触发转发的关键词）：' : '转发关键词（未配置转发目标，不会转发）：'
+    return [header, ...lines].join('\n')
+  }
+
   /**
    * @method handleMessage
    * @description 消息事件的主要处理函数，用于匹配关键词并转发消息。
@@ -134,18 +262,12 @@ export class ForwardingService {
     const { content } = session
     if (!content) return
 
-    // 检查消息内容是否匹配任一关键词
-    const matchFound = this.fwdKeywords.some(kw => {
-      if (kw.regex) {
-        // 如果配置了正则，则优先使用正则表达式进行匹配
-        return new RegExp(kw.regex, 'i').test(content)
-      } else {
-        // 否则，使用纯文本包含匹配
-        return content.includes(kw.text)
-      }
+    // 检查消息内容是否匹配任一关键词，配置了正则时使用正则表达式，否则使用纯文本包含匹配
+    // 正则表达式出错的关键词会被停用，避免每条消息都重复出错
+    const matched = checkKeywords(content, this.fwdKeywords, undefined, (kw, reason) => {
+      this.disableFwdKeyword(kw, reason, session).catch(err => this.ctx.logger.error(`停用转发关键词「${kw.text}」失败:`, err))
     })
-
-    if (matchFound) {
+    if (matched) {
       // 构建转发消息，在开头添加发送者信息
       const senderInfo = `消息来源: ${session.userId} (群: ${session.guildId || session.channelId})`
       const elements = session.elements.slice(0) // 复制原始消息元素
@@ -153,4 +275,42 @@ export class ForwardingService {
       await session.bot.sendMessage(this.config.forwardTarget, elements)
     }
   }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 停用正则表达式无效或匹配超时的转发关键词，记入修改历史并通知管理员。
+   */
+  private async disableFwdKeyword(kw: FwdKeywordConfig, reason: RegexFailure, session: Session): Promise<void> {
+    if (kw.disabled) return
+    const before = structuredClone(kw)
+    kw.disabled = reason === 'timeout' ? '正则表达式匹配超时' : '正则表达式无效'
+    await this.saveFwdKeywords()
+    const revision = await this.history.record(session.selfId, '自动停用', [{ before, after: kw }])
+    this.ctx.logger.warn(`转发关键词「${kw.text}」${kw.disabled}，已自动停用 (正则: ${kw.regex}, 群: ${session.channelId})`)
+    await notifyAdmins(
+      session.bot,
+      this.config,
+      `转发关键词「${kw.text}」的${kw.disabled}，已自动停用（群 ${session.channelId}）。\n正则：${kw.regex}\n使用 mcl.fgex 修改正则后恢复启用，或使用 mcl.fu ${revision.id} 撤销停用。`,
+    )
+  }
+
+  /**
+   * @description 应用撤销或回滚的修改，并将其记为一次新的修订。
+   */
+  private async applyHistoryChanges(action: string, changes: { from?: FwdKeywordConfig; to?: FwdKeywordConfig }[], session: Session): Promise<string> {
+    const fwdKeywords = applyRuleChanges(this.fwdKeywords, changes)
+    if (typeof fwdKeywords === 'string') return `无法${action}：转发关键词${fwdKeywords}`
+    // 先写入修改历史，保存失败时不修改规则，避免规则与历史不一致
+    try {
+      await this.history.record(session.userId, action, changes.map(({ from, to }) => ({ before: from, after: to })))
+    } catch (error) {
+      this.ctx.logger.error('保存转发关键词修改历史失败:', error)
+      return `无法${action}：保存修改历史失败`
+    }
+    this.fwdKeywords = fwdKeywords
+    await this.saveFwdKeywords()
+    const names = [...new Set(changes.map(({ from, to }) => (to ?? from).text))]
+    return `成功${action}，涉及转发关键词：${names.join(' | ')}`
+  }
 }
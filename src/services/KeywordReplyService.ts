@@ -1,15 +1,67 @@
+import { promises as fs } from 'fs'
 import { join, parse } from 'path'
 import { Context, h, Session } from 'koishi'
 import { Config } from '../index'
-import { buildReplyElements, loadJsonFile, saveJsonFile, checkKeywords, handleOCR, getTargetUserId } from '../utils'
+import {
+  buildReplyElements,
+  loadJsonFile,
+  saveJsonFile,
+  fileExists,
+  deleteFile,
+  hashBuffer,
+  checkKeywords,
+  describeMatches,
+  validateRegex,
+  notifyAdmins,
+  RegexFailure,
+  getTargetUserId,
+  getFuzzyScore,
+  DEFAULT_FUZZY_THRESHOLD,
+  renderTemplate,
+  inspectTemplate,
+  TEMPLATE_VARIABLES,
+  exportRuleSet,
+  parseRuleSet,
+  diffRuleSet,
+  formatRuleSetDiff,
+  confirmAction,
+  applyRuleChanges,
+  isSameRule,
+  RuleSetFormat,
+  RuleSetImportMode,
+} from '../utils'
+import { LauncherRegistryService } from './LauncherRegistryService'
+import { HitSource, KeywordStatsService } from './KeywordStatsService'
+import { RuleHistoryService } from './RuleHistoryService'
+import { OcrService } from './OcrService'
 
 // 关键词配置的接口定义
 interface KeywordConfig {
   text: string       // 关键词文本
   reply: string      // 回复内容（可能包含 h 元素字符串）
   regex?: string     // 可选的正则表达式
+  examples?: string[] // 可选的示例问法，配置后按相似度模糊匹配（正则表达式优先）
+  groups?: string[]  // 生效的群号，与 launchers 均未设置时在所有群生效
+  launchers?: string[] // 生效的启动器标识，在该启动器的所有关联群生效
+  disabled?: string  // 停用原因，正则表达式无效或匹配超时时自动停用，重新设置正则后恢复
 }
 
+// 关键词的生效范围
+type KeywordScope = Pick<KeywordConfig, 'groups' | 'launchers'>
+
+// 表示所有群的生效范围参数
+const ALL_GROUPS_SCOPES = ['all', '*', '全部']
+// 记录最近发送的自动回复消息 ID 的数量，用于忽略引用自动回复的消息
+const MAX_SENT_REPLY_IDS = 200
+// 冷却记录超过该数量时清理已过期的记录
+const COOLDOWN_PRUNE_SIZE = 1000
+// 回复中引用素材文件的前缀，例如 `asset:<sha256>.png`
+const ASSET_PREFIX = 'asset:'
+// 回复中所有素材引用，用于统计被引用的素材
+const ASSET_REF_REGEX = /asset:([0-9a-f]{64}\.\w+)/g
+// 素材扩展名对应的 MIME 类型
+const ASSET_MIME_TYPES: Record<string, string> = { '.jpg': 'image/jpeg', '.png': 'image/png', '.gif': 'image/gif', '.webp': 'image/webp' }
+
 /**
  * @class KeywordReplyService
  * @description 负责处理关键词自动回复，包括文本和图片内容。
@@ -17,15 +69,44 @@ interface KeywordConfig {
 export class KeywordReplyService {
   private keywords: KeywordConfig[] = []
   private keywordsFilePath: string // keywords.json 的路径
+  private exportDir: string // 存放导出规则集的目录
+  private assetsDir: string // 存放回复图片的目录，文件以内容的 SHA-256 命名
+  private keywordCooldowns = new Map<string, number>() // 关键词冷却，key: `群号:关键词`, value: 冷却结束时间
+  private userCooldowns = new Map<string, number>() // 用户冷却，key: 用户 ID, value: 冷却结束时间
+  private sentReplyIds = new Set<string>() // 最近发送的自动回复与预设回复的消息 ID
+  private history: RuleHistoryService<KeywordConfig> // 关键词的修改历史
+  private pendingImports = new Set<KeywordConfig[]>() // 等待确认的导入，其回复引用的素材不会被清理
 
-  constructor(private ctx: Context, private config: Config, dataPath: string) {
+  constructor(
+    private ctx: Context,
+    private config: Config,
+    dataPath: string,
+    private launcherRegistry: LauncherRegistryService,
+    private keywordStats: KeywordStatsService,
+    private ocrService?: OcrService,
+  ) {
     this.keywordsFilePath = join(dataPath, 'keywords.json')
+    this.exportDir = join(dataPath, 'exports')
+    this.assetsDir = join(dataPath, 'assets')
+    this.history = new RuleHistoryService(ctx, dataPath, 'keyword_history.json')
     this.loadKeywords().catch(err => ctx.logger.error('加载文本关键词失败:', err))
   }
 
-  // 从 JSON 文件加载关键词列表到内存
+  // 从 JSON 文件加载关键词列表到内存，并将旧版本内联在回复中的 Base64 图片迁移为素材文件
   private async loadKeywords(): Promise<void> {
     this.keywords = await loadJsonFile(this.keywordsFilePath, [])
+    let migrated = 0
+    for (const keyword of this.keywords) {
+      if (!keyword.reply.includes('data:')) continue
+      const reply = await this.processReply(keyword.reply)
+      if (reply === keyword.reply) continue
+      keyword.reply = reply
+      migrated++
+    }
+    if (migrated) {
+      await this.saveKeywords()
+      this.ctx.logger.info(`已将 ${migrated} 个关键词回复中的 Base64 图片迁移至素材目录`)
+    }
   }
 
   // 将内存中的关键词列表保存到 JSON 文件
@@ -35,7 +116,7 @@ export class KeywordReplyService {
 
   /**
    * @method processReply
-   * @description 处理原始回复内容，如果包含网络图片，则下载并将其转换为 Base64 编码的 data URI。
+   * @description 处理原始回复内容，将其中的网络图片与 Base64 图片保存为素材文件，并替换为 `asset:` 引用。
    * @param rawReply 原始的回复字符串
    * @returns 处理后的回复字符串
    */
@@ -43,25 +124,21 @@ export class KeywordReplyService {
     const elements = h.parse(rawReply)
     const processedElements = await Promise.all(
       elements.map(async el => {
-        if (el.type === 'img' && el.attrs.src?.startsWith('http')) {
-          const url = el.attrs.src
+        const src: string = el.type === 'img' ? el.attrs.src : undefined
+        if (src?.startsWith('http')) {
           try {
-            // 下载图片到内存缓冲区
-            const response = await this.ctx.http.get<ArrayBuffer>(url, { responseType: 'arraybuffer' })
-            const buffer = Buffer.from(response)
-            const base64 = buffer.toString('base64')
-
-            // 从 URL 中推断 MIME 类型，提供默认值
-            let mimeType = 'image/jpeg'
-            const extension = parse(new URL(url).pathname).ext.toLowerCase()
-            if (extension === '.png') mimeType = 'image/png'
-            else if (extension === '.gif') mimeType = 'image/gif'
-            else if (extension === '.webp') mimeType = 'image/webp'
-
-            // 将 src 替换为 Base64 data URI
-            el.attrs.src = `data:${mimeType};base64,${base64}`
+            // 下载图片到内存缓冲区，从 URL 中推断扩展名
+            const response = await this.ctx.http.get<ArrayBuffer>(src, { responseType: 'arraybuffer' })
+            const extension = parse(new URL(src).pathname).ext.toLowerCase().replace('.jpeg', '.jpg')
+            el.attrs.src = await this.saveAsset(Buffer.from(response), extension)
           } catch (error) {
-            this.ctx.logger.warn(`关键词回复的图片下载并转换为Base64失败: ${url}`, error)
+            this.ctx.logger.warn(`关键词回复的图片下载并保存失败: ${src}`, error)
+          }
+        } else if (src?.startsWith('data:')) {
+          const match = src.match(/^data:([\w/+.-]+);base64,(.*)$/s)
+          if (match) {
+            const extension = Object.keys(ASSET_MIME_TYPES).find(ext => ASSET_MIME_TYPES[ext] === match[1])
+            el.attrs.src = await this.saveAsset(Buffer.from(match[2], 'base64'), extension)
           }
         }
         return el
@@ -70,13 +147,61 @@ export class KeywordReplyService {
     return h.normalize(processedElements).join('')
   }
 
+  /**
+   * @description 保存素材文件，内容相同的图片只保存一份。
+   * @returns 素材引用，例如 `asset:<sha256>.png`
+   */
+  private async saveAsset(data: Buffer, extension?: string): Promise<string> {
+    const fileName = `${hashBuffer(data)}${extension && ASSET_MIME_TYPES[extension] ? extension : '.jpg'}`
+    const filePath = join(this.assetsDir, fileName)
+    if (!(await fileExists(filePath))) {
+      await fs.mkdir(this.assetsDir, { recursive: true })
+      await fs.writeFile(filePath, data)
+    }
+    return `${ASSET_PREFIX}${fileName}`
+  }
+
+  /**
+   * @description 将回复中的 `asset:` 引用替换为图片数据，用于发送或导出。素材文件缺失时保留原引用。
+   */
+  private async resolveAssets(reply: string): Promise<string> {
+    if (!reply.includes(ASSET_PREFIX)) return reply
+    const elements = await Promise.all(
+      h.parse(reply).map(async el => {
+        const src: string = el.type === 'img' ? el.attrs.src : undefined
+        if (!src?.startsWith(ASSET_PREFIX)) return el
+        const fileName = src.slice(ASSET_PREFIX.length)
+        try {
+          const data = await fs.readFile(join(this.assetsDir, fileName))
+          return h.image(data, ASSET_MIME_TYPES[parse(fileName).ext] ?? 'image/jpeg')
+        } catch (error) {
+          this.ctx.logger.warn(`关键词回复的素材文件读取失败: ${fileName}`, error)
+          return el
+        }
+      }),
+    )
+    return h.normalize(elements).join('')
+  }
+
+  /**
+   * @description 删除不再被任何关键词引用的素材文件。修改历史中的回复仍可被撤销恢复，等待确认的导入也可能被写入，它们引用的素材会被保留。
+   */
+  private async cleanupAssets(): Promise<void> {
+    const replies = [...this.keywords, ...this.history.listRules(), ...[...this.pendingImports].flat()].map(kw => kw.reply)
+    const referenced = new Set(replies.flatMap(reply => [...reply.matchAll(ASSET_REF_REGEX)].map(match => match[1])))
+    const files = await fs.readdir(this.assetsDir).catch(() => [] as string[])
+    const unused = files.filter(file => !referenced.has(file))
+    for (const file of unused) await deleteFile(join(this.assetsDir, file))
+    if (unused.length) this.ctx.logger.info(`已清理 ${unused.length} 个未被引用的关键词回复素材`)
+  }
+
   /**
    * @method executeSend
    * @description 手动执行发送预设回复的操作。
    * @param session 当前会话
    * @param textKey 要触发的关键词
    * @param target 目标用户ID或@某人
-   * @param placeholderValue 用于替换占位符的值
+   * @param placeholderValue 模板参数，按空白分隔依次填入 `{1}`、`{2}` 等变量，完整内容填入旧版本的 `{placeholder}`
    * @param options 额外选项，例如 { recalled: boolean } 表示指令是否被成功撤回
    * @returns 成功则返回空字符串，失败则返回错误信息。
    */
@@ -89,19 +214,16 @@ export class KeywordReplyService {
   ): Promise<string> {
     const kw = this.keywords.find(k => k.text === textKey)
     if (!kw) return `未找到关键词「${textKey}」的配置`
+    if (!session.isDirect && !this.isInScope(kw, session.channelId)) return `关键词「${textKey}」不适用于本群（${this.formatScope(kw)}）`
 
     const targetUserId = getTargetUserId(target)
-    let replyString = kw.reply
-
-    // 替换回复内容中的占位符
-    if (placeholderValue) {
-      replyString = replyString.replace(/{placeholder}/g, placeholderValue)
-    }
 
     try {
-      const replyContent = h.parse(replyString)
-      // 先构建基础的回复元素（如引用、@等）
-      const finalElements = buildReplyElements(session, '', targetUserId, this.config)
+      // 替换回复模板中的变量
+      const replyContent = h.parse(await this.renderReply(kw.reply, session, targetUserId, placeholderValue))
+      // 先构建基础的回复元素（如引用、@等），模板中已使用 {target} 时不再重复@目标用户
+      const mentionTarget = /\{target[|}]/.test(kw.reply) ? undefined : targetUserId
+      const finalElements = buildReplyElements(session, '', mentionTarget, this.config)
       finalElements.pop() // 移除 buildReplyElements 产生的空文本占位符
       finalElements.push(...replyContent) // 添加真正的回复内容
 
@@ -110,7 +232,8 @@ export class KeywordReplyService {
         finalElements.push(h('text', { content: '\n调用者：' }), h('at', { id: session.userId }))
       }
 
-      await session.send(finalElements)
+      this.rememberReplyIds(await session.send(finalElements))
+      this.keywordStats.recordHit(kw.text, session.channelId, 'manual')
       return '' // 执行成功，返回空字符串
     } catch (error) {
       this.ctx.logger.error('发送预设回复时发生错误:', error)
@@ -120,32 +243,68 @@ export class KeywordReplyService {
 
   /**
    * @method listKeywords
-   * @description 列出所有已配置的关键词。
-   * @returns 包含所有关键词的字符串。
+   * @description 列出已配置的关键词。
+   * @param channelId 可选，只列出在该群生效的关键词；未提供时列出所有关键词及其生效范围
+   * @returns 包含关键词的字符串。
    */
-  public listKeywords(): string {
+  public listKeywords(channelId?: string): string {
     if (!this.keywords.length) return '当前没有配置回复关键词'
-    const keywordList = this.keywords.map(kw => kw.text).join(' | ')
+    if (channelId) {
+      const keywords = this.getScopedKeywords(channelId)
+      if (!keywords.length) return '本群没有可用的回复关键词'
+      return `本群可用关键词列表：\n${keywords.map(kw => kw.text).join(' | ')}`
+    }
+    const keywordList = this.keywords
+      .map(kw => {
+        const notes = [kw.groups?.length || kw.launchers?.length ? this.formatScope(kw) : '', kw.disabled ? `已停用：${kw.disabled}` : ''].filter(Boolean)
+        return notes.length ? `${kw.text}（${notes.join('，')}）` : kw.text
+      })
+      .join(' | ')
     return `可用关键词列表：\n${keywordList}`
   }
 
+  /**
+   * @method getStatsReport
+   * @description 生成指定日期范围内的关键词命中统计。
+   * @param since 起始日期 (YYYY-MM-DD，含当天)
+   * @param until 截止日期 (YYYY-MM-DD，含当天)
+   * @returns 统计报告文本
+   */
+  public getStatsReport(since: string, until: string): string {
+    if (!this.keywords.length) return '当前没有配置回复关键词'
+    return this.keywordStats.getReport(since, until, this.keywords.map(kw => kw.text))
+  }
+
   /**
    * @method addKeyword
    * @description 添加一个新的关键词及其回复。
    * @param text 关键词
    * @param reply 回复内容
+   * @param scope 可选，生效范围，格式见 setKeywordScope
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async addKeyword(text: string, reply: string): Promise<string> {
+  public async addKeyword(text: string, reply: string, scope: string | undefined, session: Session): Promise<string> {
     if (this.keywords.some(kw => kw.text === text)) {
       return `关键词「${text}」已存在`
     }
-    const newKeyword: KeywordConfig = { text, reply: '' }
+    const parsedScope = this.parseScope(scope)
+    if (typeof parsedScope === 'string') return parsedScope
+    // 检查回复模板中的变量
+    const { unknown, positional } = inspectTemplate(reply)
+    if (unknown.length) {
+      return `回复内容中的变量 ${unknown.map(name => `{${name}}`).join('、')} 不受支持，可用变量：${TEMPLATE_VARIABLES.filter(name => name !== 'placeholder').map(name => `{${name}}`).join('、')}，以及 {1}、{2} 等参数；如需输入花括号本身，请写作 {{ 与 }}`
+    }
+    const newKeyword: KeywordConfig = { text, reply: '', ...parsedScope }
     // 处理回复中的图片
     const processedReply = await this.processReply(reply)
     newKeyword.reply = processedReply
     this.keywords.push(newKeyword)
     await this.saveKeywords()
+    await this.history.record(session.userId, '添加', [{ after: newKeyword }])
+    if (positional.length) {
+      return `成功添加关键词「${text}」，注意：${positional.map(name => `{${name}}`).join('、')} 没有默认值，自动回复时将为空，可使用 {1|默认值} 的格式设置默认值`
+    }
     return `成功添加关键词「${text}」`
   }
 
@@ -153,18 +312,22 @@ export class KeywordReplyService {
    * @method removeKeyword
    * @description 删除一个关键词。
    * @param text 要删除的关键词
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async removeKeyword(text: string): Promise<string> {
+  public async removeKeyword(text: string, session: Session): Promise<string> {
     const index = this.keywords.findIndex(kw => kw.text === text)
     if (index === -1) {
       return `未找到关键词「${text}」`
     }
 
-    this.keywords.splice(index, 1)
+    const [removed] = this.keywords.splice(index, 1)
     await this.saveKeywords()
+    const revision = await this.history.record(session.userId, '删除', [{ before: removed }])
+    this.keywordStats.removeKeyword(text)
+    await this.cleanupAssets()
 
-    return `成功删除关键词「${text}」`
+    return `成功删除关键词「${text}」，可使用 mcl.ku ${revision.id} 撤销`
   }
 
   /**
@@ -172,9 +335,10 @@ export class KeywordReplyService {
    * @description 重命名一个关键词。
    * @param oldText 旧关键词
    * @param newText 新关键词
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async renameKeyword(oldText: string, newText: string): Promise<string> {
+  public async renameKeyword(oldText: string, newText: string, session: Session): Promise<string> {
     if (oldText === newText) return '新旧关键词不能相同'
     const keyword = this.keywords.find(kw => kw.text === oldText)
     if (!keyword) {
@@ -184,60 +348,466 @@ export class KeywordReplyService {
       return `关键词「${newText}」已存在`
     }
 
+    const before = structuredClone(keyword)
     keyword.text = newText
     await this.saveKeywords()
+    await this.history.record(session.userId, '重命名', [{ before, after: keyword }])
+    this.keywordStats.renameKeyword(oldText, newText)
 
     return `成功重命名关键词「${oldText}」为「${newText}」`
   }
 
+  /**
+   * @method setKeywordScope
+   * @description 设置关键词的生效范围。
+   * @param text 目标关键词
+   * @param scope 生效范围，多个群号或启动器用空格或逗号分隔；留空或为 `all` 时在所有群生效
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async setKeywordScope(text: string, scope: string | undefined, session: Session): Promise<string> {
+    const keyword = this.keywords.find(kw => kw.text === text)
+    if (!keyword) return `未找到关键词「${text}」`
+    const parsedScope = this.parseScope(scope)
+    if (typeof parsedScope === 'string') return parsedScope
+
+    const before = structuredClone(keyword)
+    delete keyword.groups
+    delete keyword.launchers
+    Object.assign(keyword, parsedScope)
+    await this.saveKeywords()
+    await this.history.record(session.userId, '修改生效范围', [{ before, after: keyword }])
+    return `成功设置关键词「${text}」的生效范围：${this.formatScope(keyword)}`
+  }
+
+  /**
+   * @method toggleKeywordExample
+   * @description 为关键词添加示例问法，已存在时则移除。配置了示例问法的关键词按相似度模糊匹配。
+   * @param text 目标关键词
+   * @param example 示例问法
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async toggleKeywordExample(text: string, example: string, session: Session): Promise<string> {
+    const keyword = this.keywords.find(kw => kw.text === text)
+    if (!keyword) return `未找到关键词「${text}」`
+
+    const before = structuredClone(keyword)
+    const examples = (keyword.examples ??= [])
+    const index = examples.indexOf(example)
+    if (index !== -1) {
+      examples.splice(index, 1)
+      if (!examples.length) delete keyword.examples
+      await this.saveKeywords()
+      await this.history.record(session.userId, '移除示例问法', [{ before, after: keyword }])
+      return `成功移除关键词「${text}」的示例问法「${example}」`
+    }
+    examples.push(example)
+    await this.saveKeywords()
+    await this.history.record(session.userId, '添加示例问法', [{ before, after: keyword }])
+    return `成功为关键词「${text}」添加示例问法「${example}」`
+  }
+
+  /**
+   * @method scoreKeywords
+   * @description 计算一段文本与各模糊匹配关键词的相似度，用于调试示例问法与置信度阈值。
+   * @param content 要检查的文本
+   * @param channelId 可选，只计算在该群生效的关键词
+   * @returns 按相似度由高到低排列的结果文本。
+   */
+  public scoreKeywords(content: string, channelId?: string): string {
+    const keywords = (channelId ? this.getScopedKeywords(channelId) : this.keywords).filter(kw => kw.examples?.length)
+    if (!keywords.length) return '没有配置示例问法的关键词'
+    const threshold = this.config.keywordFuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD
+    const scores = keywords.map(kw => ({ kw, score: getFuzzyScore(content, kw.examples) })).sort((a, b) => b.score - a.score)
+    const lines = scores.map(({ kw, score }) => `${score >= threshold ? '✔' : '✘'} ${kw.text}：${score.toFixed(2)}${kw.regex ? '（已配置正则，不使用模糊匹配）' : ''}`)
+    return [`模糊匹配相似度（阈值 ${threshold}）：`, ...lines].join('\n')
+  }
+
+  /**
+   * @method testKeywords
+   * @description 列出文本会匹配的所有回复关键词及匹配方式，用于调试规则，不发送回复也不计入统计。
+   * @param content 要检查的文本
+   * @param channelId 可选，当前群号，不在该群生效的关键词会被标出且不会被选中
+   * @returns 匹配结果文本。
+   */
+  public testKeywords(content: string, channelId?: string): string {
+    const lines = describeMatches(content, this.keywords, {
+      fuzzyThreshold: this.config.keywordFuzzyThreshold,
+      note: kw => (channelId && !this.isInScope(kw, channelId) ? '（不在本群生效）' : undefined),
+    })
+    return lines.length ? ['回复关键词（★ 为实际回复的关键词）：', ...lines].join('\n') : '回复关键词：无匹配'
+  }
+
   /**
    * @method toggleKeywordRegex
    * @description 为关键词添加或移除正则表达式。
    * @param text 目标关键词
    * @param regex 正则表达式字符串，如果为空则表示移除
+   * @param session 当前会话，用于记录操作者
    * @returns 操作结果的提示信息。
    */
-  public async toggleKeywordRegex(text: string, regex?: string): Promise<string> {
+  public async toggleKeywordRegex(text: string, regex: string | undefined, session: Session): Promise<string> {
     const keyword = this.keywords.find(kw => kw.text === text)
     if (!keyword) return `未找到关键词「${text}」`
 
+    const before = structuredClone(keyword)
     if (regex) {
+      const error = validateRegex(regex)
+      if (error) return error
       keyword.regex = regex
+      delete keyword.disabled
       await this.saveKeywords()
-      return `成功为关键词「${text}」设置了正则表达式`
+      await this.history.record(session.userId, '设置正则', [{ before, after: keyword }])
+      return `成功为关键词「${text}」设置了正则表达式${before.disabled ? '，关键词已恢复启用' : ''}`
     } else {
       if (!keyword.regex) return `关键词「${text}」没有配置正则表达式`
       delete keyword.regex
+      delete keyword.disabled
       await this.saveKeywords()
+      await this.history.record(session.userId, '移除正则', [{ before, after: keyword }])
       return `成功移除了关键词「${text}」的正则表达式`
     }
   }
 
+  /**
+   * @method exportKeywords
+   * @description 将所有回复关键词导出为规则集文件并发送到当前会话。
+   * @param format 文件格式
+   * @param session 当前会话
+   * @returns 没有关键词时返回提示信息。
+   */
+  public async exportKeywords(format: RuleSetFormat, session: Session): Promise<string | void> {
+    if (!this.keywords.length) return '当前没有配置回复关键词'
+    // 导出的规则集需要能在其他机器人中使用，素材以 Base64 图片内联
+    const keywords = await Promise.all(this.keywords.map(async kw => ({ ...kw, reply: await this.resolveAssets(kw.reply) })))
+    return exportRuleSet(session, this.exportDir, 'keywords', keywords, format)
+  }
+
+  /**
+   * @method importKeywords
+   * @description 导入回复关键词规则集。先发送与当前关键词的差异预览，用户确认后再写入。
+   * @param session 当前会话，用于发送预览并等待确认
+   * @param file 规则文件的文件名与内容
+   * @param mode 导入模式
+   * @returns 操作结果的提示信息。
+   */
+  public async importKeywords(session: Session, file: { name: string; content: string }, mode: RuleSetImportMode): Promise<string> {
+    const items = parseRuleSet(file.content, file.name)
+    if (typeof items === 'string') return items
+    const incoming: KeywordConfig[] = []
+    for (const [index, item] of items.entries()) {
+      const keyword = this.parseKeywordRule(item)
+      if (typeof keyword === 'string') return `第 ${index + 1} 条规则无效：${keyword}`
+      if (incoming.some(kw => kw.text === keyword.text)) return `规则文件中的关键词「${keyword.text}」重复`
+      incoming.push(keyword)
+    }
+    // 先将回复中的图片保存为素材，使内容相同的回复在比较时一致；等待确认期间这些素材不会被其他操作清理
+    this.pendingImports.add(incoming)
+    let confirmed: boolean
+    try {
+      for (const keyword of incoming) keyword.reply = await this.processReply(keyword.reply)
+      const preview = diffRuleSet(this.keywords, incoming, mode)
+      if (!preview.added.length && !preview.changed.length && !preview.removed.length) return '规则文件与当前回复关键词一致，无需导入'
+      confirmed = await confirmAction(session, formatRuleSetDiff(preview, `回复关键词（${mode === 'replace' ? '替换' : '合并'}模式）`))
+    } finally {
+      this.pendingImports.delete(incoming)
+    }
+    if (!confirmed) {
+      await this.cleanupAssets()
+      return '已取消导入'
+    }
+
+    // 等待确认期间关键词可能被修改，以最新的关键词重新计算差异
+    const diff = diffRuleSet(this.keywords, incoming, mode)
+    this.keywords = diff.result
+    await this.saveKeywords()
+    await this.history.record(session.userId, mode === 'replace' ? '导入（替换）' : '导入（合并）', [
+      ...diff.added.map(after => ({ after })),
+      ...diff.changed,
+      ...diff.removed.map(before => ({ before })),
+    ])
+    for (const keyword of diff.removed) this.keywordStats.removeKeyword(keyword.text)
+    await this.cleanupAssets()
+    return `成功导入回复关键词：新增 ${diff.added.length} 条，修改 ${diff.changed.length} 条，删除 ${diff.removed.length} 条`
+  }
+
+  /**
+   * @method getHistory
+   * @description 查看关键词的修改历史。
+   * @param text 可选，只查看该关键词的修改历史
+   * @returns 修改历史文本。
+   */
+  public getHistory(text?: string): string {
+    return this.history.formatHistory('关键词', text)
+  }
+
+  /**
+   * @method undoRevision
+   * @description 撤销一次修改，将其修改的关键词恢复为修改前的内容。撤销本身也会记为一次修改，可以再次撤销。
+   * @param id 可选，修订号，未提供时撤销最近的修改
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async undoRevision(id: number | undefined, session: Session): Promise<string> {
+    const revision = this.history.getRevision(id)
+    if (!revision) return id === undefined ? '没有可撤销的修改' : `未找到修订 #${id}`
+    const changes = [...revision.changes].reverse().map(({ before, after }) => ({ from: after, to: before }))
+    return this.applyHistoryChanges(`撤销 #${revision.id}`, changes, session)
+  }
+
+  /**
+   * @method rollbackKeyword
+   * @description 将关键词回滚到指定修订之后的内容。若该修订删除了关键词，则回滚为删除。
+   * @param text 目标关键词，修订中重命名前后的名称均可
+   * @param id 修订号
+   * @param session 当前会话，用于记录操作者
+   * @returns 操作结果的提示信息。
+   */
+  public async rollbackKeyword(text: string, id: number, session: Session): Promise<string> {
+    const version = this.history.getVersion(text, id)
+    if (typeof version === 'string') return version
+    // 修订重命名过该关键词时，按修订后、修订前的名称依次查找当前的规则并替换
+    const current = version.names.map(name => this.keywords.find(kw => kw.text === name)).find(Boolean)
+    if (!current && !version.rule) return `关键词「${text}」不存在，无需回滚`
+    if (current && version.rule && isSameRule(current, version.rule)) return `关键词「${text}」已是修订 #${id} 的内容`
+    return this.applyHistoryChanges(`回滚至 #${id}`, [{ from: current, to: version.rule }], session)
+  }
+
   /**
    * @method handleMessage
    * @description 消息事件的主要处理函数，用于匹配关键词并发送回复。
    * @param session 当前会话
    */
   public async handleMessage(session: Session): Promise<void> {
-    if (!this.keywords?.length) return
+    // 忽略机器人自己的消息，以及引用自动回复的消息，避免循环触发
+    if (session.userId === session.selfId) return
+    if (session.quote?.id && this.sentReplyIds.has(session.quote.id)) return
+
+    // 只匹配在当前群生效的关键词
+    const keywords = this.getScopedKeywords(session.channelId)
+    if (!keywords.length) return
 
     const { content, elements } = session
-    let replied = false
+    let matched: KeywordConfig | null = null
+    let source: HitSource = 'text'
+
+    // 正则表达式出错的关键词会被停用，避免每条消息都重复出错
+    const onRegexError = (kw: KeywordConfig, reason: RegexFailure) => {
+      this.disableKeyword(kw, reason, session).catch(err => this.ctx.logger.error(`停用关键词「${kw.text}」失败:`, err))
+    }
 
     // 1. 如果启用了关键词回复，则检查纯文本内容
     if (this.config.keywordReply && content) {
-      replied = await checkKeywords(content, this.keywords, session, this.config)
+      matched = checkKeywords(content, keywords, this.config.keywordFuzzyThreshold, onRegexError)
     }
 
-    // 2. 如果启用了 OCR 回复，并且文本内容没有匹配成功，则检查图片内容
-    if (this.config.ocrReply && !replied) {
-      const imageElement = elements?.find(el => el.type === 'img')
-      if (imageElement) {
-        const ocrText = await handleOCR(imageElement, session)
-        if (ocrText) {
-          await checkKeywords(ocrText, this.keywords, session, this.config)
-        }
+    // 2. 如果启用了 OCR 回复，并且文本内容没有匹配成功，则检查所有图片的识别结果。所有关键词都在冷却中时识别结果不会触发回复，不进行识别
+    if (this.config.ocrReply && this.ocrService && !matched && keywords.some(kw => !this.getCooldown(session, kw))) {
+      const ocrText = await this.ocrService.recognizeImages(elements, session)
+      if (ocrText) {
+        matched = checkKeywords(ocrText, keywords, this.config.keywordFuzzyThreshold, onRegexError)
+        source = 'ocr'
       }
     }
+
+    if (matched) await this.sendAutoReply(session, matched, source)
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 停用正则表达式无效或匹配超时的关键词，记入修改历史并通知管理员。
+   */
+  private async disableKeyword(kw: KeywordConfig, reason: RegexFailure, session: Session): Promise<void> {
+    if (kw.disabled) return
+    const before = structuredClone(kw)
+    kw.disabled = reason === 'timeout' ? '正则表达式匹配超时' : '正则表达式无效'
+    await this.saveKeywords()
+    const revision = await this.history.record(session.selfId, '自动停用', [{ before, after: kw }])
+    this.ctx.logger.warn(`关键词「${kw.text}」${kw.disabled}，已自动停用 (正则: ${kw.regex}, 群: ${session.channelId})`)
+    await notifyAdmins(
+      session.bot,
+      this.config,
+      `关键词「${kw.text}」的${kw.disabled}，已自动停用（群 ${session.channelId}）。\n正则：${kw.regex}\n使用 mcl.kgex 修改正则后恢复启用，或使用 mcl.ku ${revision.id} 撤销停用。`,
+    )
+  }
+
+  /**
+   * @description 应用撤销或回滚的修改，并将其记为一次新的修订。
+   */
+  private async applyHistoryChanges(action: string, changes: { from?: KeywordConfig; to?: KeywordConfig }[], session: Session): Promise<string> {
+    const keywords = applyRuleChanges(this.keywords, changes)
+    if (typeof keywords === 'string') return `无法${action}：关键词${keywords}`
+    // 先写入修改历史，保存失败时不修改规则，避免规则与历史不一致
+    try {
+      await this.history.record(session.userId, action, changes.map(({ from, to }) => ({ before: from, after: to })))
+    } catch (error) {
+      this.ctx.logger.error('保存关键词修改历史失败:', error)
+      return `无法${action}：保存修改历史失败`
+    }
+    this.keywords = keywords
+    await this.saveKeywords()
+    for (const { from, to } of changes) {
+      if (from && !to) this.keywordStats.removeKeyword(from.text)
+      else if (from && to && from.text !== to.text) this.keywordStats.renameKeyword(from.text, to.text)
+    }
+    await this.cleanupAssets()
+    const names = [...new Set(changes.map(({ from, to }) => (to ?? from).text))]
+    return `成功${action}，涉及关键词：${names.join(' | ')}`
+  }
+
+  /**
+   * @description 判断关键词在本群或发送者是否仍在冷却中，返回冷却的类型，不在冷却中时返回 null。
+   */
+  private getCooldown(session: Session, kw: KeywordConfig): 'keyword' | 'user' | null {
+    const now = Date.now()
+    if ((this.keywordCooldowns.get(`${session.channelId}:${kw.text}`) ?? 0) > now) return 'keyword'
+    if ((this.userCooldowns.get(session.userId) ?? 0) > now) return 'user'
+    return null
+  }
+
+  /**
+   * @description 发送自动回复。关键词在本群或用户仍在冷却中时不发送，只计入拦截次数。
+   */
+  private async sendAutoReply(session: Session, kw: KeywordConfig, source: HitSource): Promise<void> {
+    const now = Date.now()
+    const keywordKey = `${session.channelId}:${kw.text}`
+    const suppressedBy = this.getCooldown(session, kw)
+    if (suppressedBy) {
+      this.keywordStats.recordSuppressed(kw.text, suppressedBy)
+      this.ctx.logger.debug(`关键词「${kw.text}」处于${suppressedBy === 'keyword' ? '关键词' : '用户'}冷却中，未回复 (群: ${session.channelId}, 用户: ${session.userId})`)
+      return
+    }
+
+    const elements = buildReplyElements(session, '', undefined, this.config)
+    elements.pop() // 移除 buildReplyElements 产生的空文本占位符
+    elements.push(...h.parse(await this.renderReply(kw.reply, session))) // 添加真正的回复内容
+    const messageIds = await session.send(elements)
+    this.keywordStats.recordHit(kw.text, session.channelId, source)
+
+    setCooldown(this.keywordCooldowns, keywordKey, now + (this.config.keywordCooldown ?? 60) * 1000)
+    setCooldown(this.userCooldowns, session.userId, now + (this.config.keywordUserCooldown ?? 10) * 1000)
+    this.rememberReplyIds(messageIds)
+  }
+
+  /**
+   * @description 记录自动回复与预设回复的消息 ID，引用这些回复的消息不会再触发关键词。
+   */
+  private rememberReplyIds(messageIds: string[] | undefined): void {
+    for (const id of messageIds ?? []) this.sentReplyIds.add(id)
+    // Set 按插入顺序迭代，超出数量时删除最早的记录
+    for (const id of this.sentReplyIds) {
+      if (this.sentReplyIds.size <= MAX_SENT_REPLY_IDS) break
+      this.sentReplyIds.delete(id)
+    }
+  }
+
+  /**
+   * @description 替换回复模板中的变量，并读取引用的素材。自动回复没有目标用户与参数，对应变量使用默认值或为空。
+   */
+  private async renderReply(reply: string, session: Session, targetUserId?: string, args?: string): Promise<string> {
+    const variables: Record<string, string> = {
+      user: h('at', { id: session.userId }).toString(),
+      userName: h.escape(session.author?.nick || session.author?.name || session.username || session.userId),
+      group: session.guildId || '',
+      date: new Date().toLocaleDateString('zh-CN'),
+      target: targetUserId ? h('at', { id: targetUserId }).toString() : '',
+      // 参数与旧版本一样按消息元素插入，保留其中的 @、图片等元素
+      placeholder: args?.trim() ?? '',
+    }
+    args?.trim().split(/\s+/).forEach((arg, index) => {
+      if (arg) variables[index + 1] = arg
+    })
+    // 群名称需要额外请求，只在模板中用到时获取
+    if (/\{groupName[|}]/.test(reply) && session.guildId) {
+      try {
+        const guild = await session.bot.getGuild(session.guildId)
+        variables.groupName = h.escape(guild?.name || '')
+      } catch (error) {
+        this.ctx.logger.warn(`获取群 ${session.guildId} 的名称失败:`, error)
+      }
+    }
+    return this.resolveAssets(renderTemplate(reply, variables))
+  }
+
+  /**
+   * @description 校验规则文件中的一条关键词，只保留已知字段。规则无效时返回错误提示。
+   */
+  private parseKeywordRule(item: unknown): KeywordConfig | string {
+    const rule = item as Record<string, unknown>
+    if (!rule || typeof rule !== 'object') return '规则应为对象'
+    if (typeof rule.text !== 'string' || !rule.text) return '缺少关键词 text'
+    if (typeof rule.reply !== 'string' || !rule.reply) return `关键词「${rule.text}」缺少回复内容 reply`
+    const keyword: KeywordConfig = { text: rule.text, reply: rule.reply }
+    if (rule.regex !== undefined) {
+      if (typeof rule.regex !== 'string') return `关键词「${rule.text}」的 regex 应为字符串`
+      const error = validateRegex(rule.regex)
+      if (error) return `关键词「${rule.text}」的${error}`
+      keyword.regex = rule.regex
+    }
+    for (const field of ['examples', 'groups', 'launchers'] as const) {
+      const value = rule[field]
+      if (value === undefined) continue
+      if (!Array.isArray(value) || value.some(entry => typeof entry !== 'string')) return `关键词「${rule.text}」的 ${field} 应为字符串列表`
+      if (value.length) keyword[field] = value
+    }
+    const { unknown } = inspectTemplate(keyword.reply)
+    if (unknown.length) return `关键词「${rule.text}」的回复内容中的变量 ${unknown.map(name => `{${name}}`).join('、')} 不受支持，花括号本身应写作 {{ 与 }}`
+    return keyword
+  }
+
+  // 获取在指定群生效的关键词
+  private getScopedKeywords(channelId: string): KeywordConfig[] {
+    return this.keywords.filter(kw => this.isInScope(kw, channelId))
+  }
+
+  // 判断关键词是否在指定群生效，群号列表与启动器关联群取并集
+  private isInScope(kw: KeywordConfig, channelId: string): boolean {
+    if (!kw.groups?.length && !kw.launchers?.length) return true
+    if (kw.groups?.includes(channelId)) return true
+    return kw.launchers?.some(id => this.launcherRegistry.getLauncher(id)?.groups.includes(channelId)) ?? false
+  }
+
+  /**
+   * @description 解析生效范围参数：纯数字视为群号，其余视为启动器标识或名称。参数无效时返回错误提示。
+   */
+  private parseScope(input?: string): KeywordScope | string {
+    const tokens = input?.split(/[\s,，]+/).filter(Boolean) ?? []
+    if (!tokens.length || tokens.some(token => ALL_GROUPS_SCOPES.includes(token.toLowerCase()))) return {}
+    const groups: string[] = []
+    const launchers: string[] = []
+    for (const token of tokens) {
+      if (/^\d+$/.test(token)) {
+        if (!/^\d{5,11}$/.test(token)) return `群号「${token}」无效`
+        groups.push(token)
+        continue
+      }
+      const launcher = this.launcherRegistry.getLauncher(token)
+      if (!launcher) return `未找到启动器「${token}」`
+      launchers.push(launcher.id)
+    }
+    const scope: KeywordScope = {}
+    if (groups.length) scope.groups = [...new Set(groups)]
+    if (launchers.length) scope.launchers = [...new Set(launchers)]
+    return scope
+  }
+
+  // 生效范围的显示文本
+  private formatScope(kw: KeywordConfig): string {
+    const parts = [
+      ...(kw.launchers ?? []).map(id => `${this.launcherRegistry.getLauncher(id)?.name ?? id} 群`),
+      ...(kw.groups ?? []).map(group => `群 ${group}`),
+    ]
+    return parts.length ? parts.join('、') : '所有群'
+  }
+}
+
+// 设置冷却结束时间，记录过多时顺便清理已过期的记录
+const setCooldown = (cooldowns: Map<string, number>, key: string, until: number): void => {
+  if (cooldowns.size > COOLDOWN_PRUNE_SIZE) {
+    const now = Date.now()
+    for (const [item, time] of cooldowns) if (time <= now) cooldowns.delete(item)
   }
+  cooldowns.set(key, until)
 }
@@ -0,0 +1,189 @@
+import { join } from 'path'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { loadJsonFile, saveJsonFile } from '../utils'
+
+// --- 接口与常量定义 ---
+
+// 关键词回复的触发来源：消息文本、图片 OCR、手动发送
+export type HitSource = 'text' | 'ocr' | 'manual'
+
+// 因冷却而未回复的原因：同一关键词在同一群的冷却、同一用户的冷却
+export type SuppressReason = 'keyword' | 'user'
+
+// 单个关键词一天内的命中情况
+interface DailyHits {
+  hits: number // 命中并回复的次数
+  groups: Record<string, number> // 各群的命中次数
+  sources: Partial<Record<HitSource, number>> // 各触发来源的命中次数
+  suppressed?: Partial<Record<SuppressReason, number>> // 因冷却而未回复的次数
+}
+
+// 单个关键词的统计
+interface KeywordStat {
+  lastHit?: number // 最近一次命中的时间
+  days: Record<string, DailyHits> // 每天的命中情况，key: YYYY-MM-DD (UTC)
+}
+
+// 各触发来源的显示名称
+const HIT_SOURCE_LABELS: Record<HitSource, string> = { text: '文本', ocr: '图片', manual: '手动' }
+// 按天统计的保留天数
+const STATS_RETENTION_DAYS = 365
+// 统计变更后延迟写入的时间，期间的多次变更合并为一次写入
+const STATS_FLUSH_DELAY = 5000
+// 统计报告中最多列出的常用关键词数
+const MAX_TOP_KEYWORDS = 10
+
+/**
+ * @class KeywordStatsService
+ * @description 记录各关键词回复的命中次数、命中的群组与触发来源，以及因冷却而未回复的次数，保存在 keywords.json 旁的 keyword_stats.json 中。
+ */
+export class KeywordStatsService {
+  private stats: Record<string, KeywordStat> = {} // key: 关键词
+  private statsFilePath: string // keyword_stats.json 的路径
+  private flushTimer: (() => void) | null = null // 取消统计延迟写入的函数，定时器随插件卸载自动清除
+
+  constructor(private ctx: Context, private config: Config, dataPath: string) {
+    this.statsFilePath = join(dataPath, 'keyword_stats.json')
+    loadJsonFile<Record<string, KeywordStat>>(this.statsFilePath, {})
+      .then(stats => {
+        // 加载完成前产生的统计以内存中的为准
+        this.stats = { ...stats, ...this.stats }
+      })
+      .catch(err => ctx.logger.error('加载关键词统计失败:', err))
+    // 插件卸载时立即写入尚未保存的统计
+    ctx.on('dispose', () => this.flushStats())
+  }
+
+  /**
+   * @method recordHit
+   * @description 记录一次关键词命中并回复。
+   * @param text 关键词
+   * @param channelId 命中所在的群组
+   * @param source 触发来源
+   */
+  public recordHit(text: string, channelId: string, source: HitSource): void {
+    const day = this.getDailyHits(text)
+    day.hits++
+    day.groups[channelId] = (day.groups[channelId] ?? 0) + 1
+    day.sources[source] = (day.sources[source] ?? 0) + 1
+    this.stats[text].lastHit = Date.now()
+    this.scheduleSave()
+  }
+
+  /**
+   * @method recordSuppressed
+   * @description 记录一次因冷却而未回复的命中。
+   * @param text 关键词
+   * @param reason 冷却类型
+   */
+  public recordSuppressed(text: string, reason: SuppressReason): void {
+    const day = this.getDailyHits(text)
+    day.suppressed = { ...day.suppressed, [reason]: (day.suppressed?.[reason] ?? 0) + 1 }
+    this.scheduleSave()
+  }
+
+  /**
+   * @method renameKeyword
+   * @description 关键词重命名后迁移其统计。
+   * @param oldText 旧关键词
+   * @param newText 新关键词
+   */
+  public renameKeyword(oldText: string, newText: string): void {
+    if (!this.stats[oldText]) return
+    this.stats[newText] = this.stats[oldText]
+    delete this.stats[oldText]
+    this.scheduleSave()
+  }
+
+  /**
+   * @method removeKeyword
+   * @description 关键词删除后移除其统计。
+   * @param text 关键词
+   */
+  public removeKeyword(text: string): void {
+    if (!this.stats[text]) return
+    delete this.stats[text]
+    this.scheduleSave()
+  }
+
+  /**
+   * @method getReport
+   * @description 生成指定日期范围内的关键词统计报告，包括最常用的关键词、冷却拦截次数以及未被触发过的关键词。
+   * @param since 起始日期 (YYYY-MM-DD，含当天)
+   * @param until 截止日期 (YYYY-MM-DD，含当天)
+   * @param keywords 当前配置的所有关键词
+   * @returns 统计报告文本
+   */
+  public getReport(since: string, until: string, keywords: string[]): string {
+    const totals = keywords.map(text => {
+      const total = { text, hits: 0, groups: {} as Record<string, number>, sources: {} as Record<string, number>, suppressed: { keyword: 0, user: 0 } }
+      for (const [date, day] of Object.entries(this.stats[text]?.days ?? {})) {
+        if (date < since || date > until) continue
+        total.hits += day.hits
+        for (const [group, count] of Object.entries(day.groups)) total.groups[group] = (total.groups[group] ?? 0) + count
+        for (const [source, count] of Object.entries(day.sources)) total.sources[source] = (total.sources[source] ?? 0) + count
+        total.suppressed.keyword += day.suppressed?.keyword ?? 0
+        total.suppressed.user += day.suppressed?.user ?? 0
+      }
+      return total
+    })
+
+    const used = totals.filter(total => total.hits).sort((a, b) => b.hits - a.hits)
+    const lines = [`关键词统计（${since} 至 ${until}）：`, `共命中 ${used.reduce((sum, total) => sum + total.hits, 0)} 次，${used.length}/${keywords.length} 个关键词被触发`]
+    if (used.length) {
+      lines.push('最常用：')
+      for (const [index, total] of used.slice(0, MAX_TOP_KEYWORDS).entries()) {
+        const sources = Object.entries(total.sources)
+          .map(([source, count]) => `${HIT_SOURCE_LABELS[source] ?? source} ${count}`)
+          .join(' / ')
+        const topGroup = Object.entries(total.groups).sort((a, b) => b[1] - a[1])[0]?.[0]
+        lines.push(`${index + 1}. ${total.text}：${total.hits} 次（${sources}${topGroup ? `，最多在群 ${topGroup}` : ''}）`)
+      }
+    }
+
+    const suppressed = totals.filter(total => total.suppressed.keyword || total.suppressed.user)
+    if (suppressed.length) {
+      lines.push(`冷却拦截：${suppressed.map(total => `${total.text} 关键词 ${total.suppressed.keyword} 次、用户 ${total.suppressed.user} 次`).join(' | ')}`)
+    }
+
+    const unused = totals.filter(total => !total.hits)
+    if (unused.length) {
+      const describe = (text: string) => {
+        const lastHit = this.stats[text]?.lastHit
+        return lastHit ? `${text}（最近 ${new Date(lastHit).toISOString().slice(0, 10)}）` : `${text}（从未触发）`
+      }
+      lines.push(`未触发（${unused.length} 个）：${unused.map(total => describe(total.text)).join(' | ')}`)
+    }
+    return lines.join('\n')
+  }
+
+  // --- 私有辅助方法 ---
+
+  // 获取关键词当天的命中情况，不存在时创建
+  private getDailyHits(text: string): DailyHits {
+    const date = new Date().toISOString().slice(0, 10)
+    const stat = (this.stats[text] ??= { days: {} })
+    return (stat.days[date] ??= { hits: 0, groups: {}, sources: {} })
+  }
+
+  private scheduleSave(): void {
+    if (this.flushTimer) return
+    this.flushTimer = this.ctx.setTimeout(() => this.flushStats(), STATS_FLUSH_DELAY)
+  }
+
+  /**
+   * @description 立即写入统计，并清理超过保留天数的按天统计。
+   */
+  private async flushStats(): Promise<void> {
+    if (this.flushTimer) {
+      this.flushTimer()
+      this.flushTimer = null
+    }
+    const expireBefore = new Date(Date.now() - STATS_RETENTION_DAYS * 86400 * 1000).toISOString().slice(0, 10)
+    for (const stat of Object.values(this.stats)) {
+      for (const date of Object.keys(stat.days)) if (date < expireBefore) delete stat.days[date]
+    }
+    await saveJsonFile(this.statsFilePath, this.stats)
+  }
+}
@@ -0,0 +1,338 @@
+import { join } from 'path'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { loadJsonFile, saveJsonFile } from '../utils'
+
+// --- 接口与常量定义 ---
+
+/**
+ * @description 单个启动器的配置。
+ */
+export interface LauncherConfig {
+  id: string // 启动器标识，例如 `hmcl`
+  name: string // 显示名称，例如 `HMCL`
+  groupId: string // 主要群号 (报错反馈群)
+  groups: string[] // 所有相关群号（含主要群号）
+  patterns: string[] // 匹配该启动器导出的报告文件名的正则表达式
+  markers?: string[] // 在报告内容中识别该启动器的正则表达式，同时匹配压缩包内的文件路径与日志文本
+  aliases?: string[] // 群组管理命令中代表主要群号的别名，例如 `H`
+  joinLink?: string // 主要群的加群链接，多次发错群时附在提示中
+}
+
+// 启动器配置中可编辑的正则表达式列表
+export type LauncherPatternField = 'patterns' | 'markers'
+
+// 除启动器外需要维护的群组列表
+export type GroupListType = 'multi' | 'record' | 'curfew'
+
+/**
+ * @description 启动器与群组注册表的完整结构，保存在 launchers.json 中。
+ */
+interface RegistryData {
+  launchers: LauncherConfig[] // 启动器列表，按群号查找所属启动器时按顺序匹配
+  groupLists: Record<GroupListType, string[]> // 各类群组列表
+}
+
+// 各类群组列表的显示名称
+export const GROUP_LIST_LABELS: Record<GroupListType, string> = { multi: '多启动器交流群', record: '报告记录群', curfew: '宵禁群' }
+
+// 多启动器问题交流群的默认群号
+const DEFAULT_MULTI_LAUNCHER_GROUP_ID = '958853931'
+
+// 首次使用时的默认注册表
+const DEFAULT_REGISTRY: RegistryData = {
+  launchers: [
+    {
+      id: 'hmcl',
+      name: 'HMCL',
+      groupId: '666546887',
+      groups: ['666546887', '633640264', '203232161', '201034984', '533529045', '744304553', '282845310', '482624681', '991620626', '657677715', '775084843'],
+      patterns: ['minecraft-exported-(crash-info|logs)-\\d{4}-\\d{2}-\\d{2}T\\d{2}-\\d{2}-\\d{2}\\.(zip|log)$'],
+      markers: ['(^|/)hmcl\\.log$', 'Hello Minecraft! Launcher'],
+      aliases: ['H'],
+    },
+    {
+      id: 'pcl',
+      name: 'PCL',
+      groupId: '978054335',
+      groups: ['978054335', '1028074835'],
+      patterns: ['错误报告-\\d{4}-\\d{1,2}-\\d{1,2}_\\d{2}\\.\\d{2}\\.\\d{2}\\.zip$'],
+      markers: ['(^|/)PCL\\d? ?启动器日志\\.txt$', '(^|/)游戏崩溃前的输出\\.txt$', 'Plain Craft Launcher'],
+      aliases: ['P'],
+    },
+    {
+      id: 'bakaxl',
+      name: 'BakaXL',
+      groupId: DEFAULT_MULTI_LAUNCHER_GROUP_ID, // BakaXL 的主群同时也是多功能群
+      groups: ['480455628', '377521448', DEFAULT_MULTI_LAUNCHER_GROUP_ID],
+      patterns: ['BakaXL-ErrorCan-\\d{14}\\.json$'],
+      markers: ['BakaXL'],
+    },
+  ],
+  groupLists: {
+    multi: [DEFAULT_MULTI_LAUNCHER_GROUP_ID],
+    record: ['666546887', '978054335', DEFAULT_MULTI_LAUNCHER_GROUP_ID],
+    curfew: ['666546887', '978054335'],
+  },
+}
+
+/**
+ * @class LauncherRegistryService
+ * @description 维护启动器与群组的注册表，包括各启动器的报错群、关联群与报告文件名格式，以及多启动器交流群、报告记录群和宵禁群。其余服务均从这里读取群组信息。
+ */
+export class LauncherRegistryService {
+  private data: RegistryData = structuredClone(DEFAULT_REGISTRY)
+  private registryFilePath: string // launchers.json 的路径
+  private patternCache = new Map<string, RegExp | null>() // 已编译的正则，无效的正则缓存为 null
+
+  constructor(private ctx: Context, private config: Config, dataPath: string) {
+    this.registryFilePath = join(dataPath, 'launchers.json')
+    this.loadRegistry().catch(err => ctx.logger.error('加载启动器注册表失败:', err))
+  }
+
+  // 从 JSON 文件加载注册表，文件不存在时写入默认注册表，便于直接编辑
+  private async loadRegistry(): Promise<void> {
+    const data = await loadJsonFile<RegistryData>(this.registryFilePath, null)
+    if (!data) return this.saveRegistry()
+    const launchers = (data.launchers ?? []).map(launcher => ({
+      ...launcher,
+      // 旧版本的注册表没有内容特征，内置启动器使用默认值
+      markers: launcher.markers ?? DEFAULT_REGISTRY.launchers.find(item => item.id === launcher.id)?.markers ?? [],
+    }))
+    this.data = { launchers, groupLists: { ...DEFAULT_REGISTRY.groupLists, ...data.groupLists } }
+  }
+
+  // 将注册表保存到 JSON 文件
+  private async saveRegistry(): Promise<void> {
+    await saveJsonFile(this.registryFilePath, this.data)
+  }
+
+  /**
+   * @method getLaunchers
+   * @description 获取所有启动器的配置。
+   */
+  public getLaunchers(): readonly LauncherConfig[] {
+    return this.data.launchers
+  }
+
+  /**
+   * @method getLauncher
+   * @description 根据标识或显示名称（不区分大小写）获取启动器配置。
+   * @param key 启动器标识或显示名称
+   * @returns 启动器配置，不存在时返回 null。
+   */
+  public getLauncher(key: string): LauncherConfig | null {
+    const value = key?.toLowerCase()
+    return this.data.launchers.find(launcher => launcher.id === value || launcher.name.toLowerCase() === value) ?? null
+  }
+
+  /**
+   * @method detectLauncherFromFile
+   * @description 根据文件名检测文件属于哪个启动器。
+   * @param fileName 文件名
+   * @returns 启动器配置，无法识别时返回 null。
+   */
+  public detectLauncherFromFile(fileName: string): LauncherConfig | null {
+    return this.data.launchers.find(launcher => launcher.patterns.some(pattern => this.compilePattern(pattern, 'i')?.test(fileName))) ?? null
+  }
+
+  /**
+   * @method detectLauncherFromContent
+   * @description 根据报告内容检测文件属于哪个启动器。
+   * @param content 报告内容，包括压缩包内的文件路径与日志文本，各占一行或多行
+   * @returns 启动器配置，无法识别时返回 null。
+   */
+  public detectLauncherFromContent(content: string): LauncherConfig | null {
+    return this.data.launchers.find(launcher => launcher.markers?.some(marker => this.compilePattern(marker, 'im')?.test(content))) ?? null
+  }
+
+  /**
+   * @method getLauncherByGroup
+   * @description 根据群号判断群组属于哪个启动器。多个启动器包含同一群号时，以注册表中靠前的为准。
+   * @param groupId 群号
+   * @returns 启动器配置，不属于任何启动器时返回 null。
+   */
+  public getLauncherByGroup(groupId: string): LauncherConfig | null {
+    return this.data.launchers.find(launcher => launcher.groups.includes(groupId)) ?? null
+  }
+
+  /**
+   * @method getGroupList
+   * @description 获取某一类群组列表。
+   * @param type 群组列表类型
+   */
+  public getGroupList(type: GroupListType): readonly string[] {
+    return this.data.groupLists[type]
+  }
+
+  /**
+   * @method resolveGroupAlias
+   * @description 将群组管理命令中的群组参数解析为群号，支持启动器标识、显示名称、别名（不区分大小写）以及已注册的主要群号。
+   * @param key 群组参数
+   * @returns 群号，无法识别时返回 null。
+   */
+  public resolveGroupAlias(key: string): string | null {
+    const value = key.toUpperCase()
+    const launcher = this.data.launchers.find(
+      launcher =>
+        launcher.groupId === key ||
+        launcher.id.toUpperCase() === value ||
+        launcher.name.toUpperCase() === value ||
+        launcher.aliases?.some(alias => alias.toUpperCase() === value),
+    )
+    return launcher?.groupId ?? null
+  }
+
+  /**
+   * @method listLaunchers
+   * @description 列出注册表中的所有启动器与群组列表。
+   * @returns 注册表内容的文本。
+   */
+  public listLaunchers(): string {
+    const lines = ['启动器注册表：']
+    for (const launcher of this.data.launchers) {
+      const aliases = launcher.aliases?.length ? `（别名：${launcher.aliases.join('、')}）` : ''
+      lines.push(
+        `${launcher.name} [${launcher.id}]${aliases}`,
+        `  报错群：${launcher.groupId}`,
+        `  关联群：${launcher.groups.filter(group => group !== launcher.groupId).join(', ') || '无'}`,
+        `  文件格式：${launcher.patterns.join(' | ') || '无'}`,
+        `  内容特征：${launcher.markers?.join(' | ') || '无'}`,
+        `  加群链接：${launcher.joinLink || '无'}`,
+      )
+    }
+    for (const [type, label] of Object.entries(GROUP_LIST_LABELS)) {
+      lines.push(`${label}：${this.data.groupLists[type].join(', ') || '无'}`)
+    }
+    return lines.join('\n')
+  }
+
+  /**
+   * @method addLauncher
+   * @description 添加启动器，已存在时更新其显示名称与主要群号。
+   * @param id 启动器标识
+   * @param name 显示名称
+   * @param groupId 主要群号
+   * @returns 操作结果的提示信息。
+   */
+  public async addLauncher(id: string, name: string, groupId: string): Promise<string> {
+    if (!/^\d{5,11}$/.test(groupId)) return `群号「${groupId}」无效`
+    const existing = this.data.launchers.find(launcher => launcher.id === id.toLowerCase())
+    if (existing) {
+      existing.name = name
+      existing.groupId = groupId
+      if (!existing.groups.includes(groupId)) existing.groups.unshift(groupId)
+      await this.saveRegistry()
+      return `成功更新启动器「${name}」，报错群：${groupId}`
+    }
+    this.data.launchers.push({ id: id.toLowerCase(), name, groupId, groups: [groupId], patterns: [] })
+    await this.saveRegistry()
+    return `成功添加启动器「${name}」，报错群：${groupId}`
+  }
+
+  /**
+   * @method removeLauncher
+   * @description 删除一个启动器。
+   * @param key 启动器标识或显示名称
+   * @returns 操作结果的提示信息。
+   */
+  public async removeLauncher(key: string): Promise<string> {
+    const launcher = this.getLauncher(key)
+    if (!launcher) return `未找到启动器「${key}」`
+    this.data.launchers.splice(this.data.launchers.indexOf(launcher), 1)
+    await this.saveRegistry()
+    return `成功删除启动器「${launcher.name}」`
+  }
+
+  /**
+   * @method setLauncherGroups
+   * @description 设置启动器的关联群组，主要群号始终保留在其中。
+   * @param key 启动器标识或显示名称
+   * @param groups 关联群号列表
+   * @returns 操作结果的提示信息。
+   */
+  public async setLauncherGroups(key: string, groups: string[]): Promise<string> {
+    const launcher = this.getLauncher(key)
+    if (!launcher) return `未找到启动器「${key}」`
+    const invalid = groups.find(group => !/^\d{5,11}$/.test(group))
+    if (invalid) return `群号「${invalid}」无效`
+    launcher.groups = [...new Set([launcher.groupId, ...groups])]
+    await this.saveRegistry()
+    return `成功设置启动器「${launcher.name}」的关联群：${launcher.groups.filter(group => group !== launcher.groupId).join(', ') || '无'}`
+  }
+
+  /**
+   * @method setLauncherJoinLink
+   * @description 设置启动器主要群的加群链接。
+   * @param key 启动器标识或显示名称
+   * @param link 加群链接，留空则清除
+   * @returns 操作结果的提示信息。
+   */
+  public async setLauncherJoinLink(key: string, link?: string): Promise<string> {
+    const launcher = this.getLauncher(key)
+    if (!launcher) return `未找到启动器「${key}」`
+    if (link && !/^https?:\/\/\S+$/.test(link)) return `加群链接「${link}」无效`
+    if (link) launcher.joinLink = link
+    else delete launcher.joinLink
+    await this.saveRegistry()
+    return link ? `成功设置启动器「${launcher.name}」的加群链接` : `成功清除启动器「${launcher.name}」的加群链接`
+  }
+
+  /**
+   * @method toggleLauncherPattern
+   * @description 为启动器添加报告文件名或报告内容的正则表达式，已存在时则移除。
+   * @param key 启动器标识或显示名称
+   * @param pattern 正则表达式字符串（不区分大小写，`^` 与 `$` 匹配每一行）
+   * @param field 要修改的列表：patterns（文件格式）或 markers（内容特征）
+   * @returns 操作结果的提示信息。
+   */
+  public async toggleLauncherPattern(key: string, pattern: string, field: LauncherPatternField = 'patterns'): Promise<string> {
+    const launcher = this.getLauncher(key)
+    if (!launcher) return `未找到启动器「${key}」`
+    const label = field === 'patterns' ? '文件格式' : '内容特征'
+    const list = (launcher[field] ??= [])
+    const index = list.indexOf(pattern)
+    if (index !== -1) {
+      list.splice(index, 1)
+      await this.saveRegistry()
+      return `成功移除启动器「${launcher.name}」的${label}「${pattern}」`
+    }
+    if (!this.compilePattern(pattern, field === 'patterns' ? 'i' : 'im')) return `「${pattern}」不是有效的正则表达式`
+    list.push(pattern)
+    await this.saveRegistry()
+    return `成功为启动器「${launcher.name}」添加${label}「${pattern}」`
+  }
+
+  /**
+   * @method setGroupList
+   * @description 设置某一类群组列表。
+   * @param type 群组列表类型
+   * @param groups 群号列表，为空时清空该列表
+   * @returns 操作结果的提示信息。
+   */
+  public async setGroupList(type: GroupListType, groups: string[]): Promise<string> {
+    const invalid = groups.find(group => !/^\d{5,11}$/.test(group))
+    if (invalid) return `群号「${invalid}」无效`
+    this.data.groupLists[type] = [...new Set(groups)]
+    await this.saveRegistry()
+    return `成功设置${GROUP_LIST_LABELS[type]}：${this.data.groupLists[type].join(', ') || '无'}`
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 编译并缓存正则表达式。文件名规则使用 `i`，内容特征需要逐行匹配，使用 `im`。
+   */
+  private compilePattern(pattern: string, flags: 'i' | 'im'): RegExp | null {
+    const key = `${flags}:${pattern}`
+    if (!this.patternCache.has(key)) {
+      try {
+        this.patternCache.set(key, new RegExp(pattern, flags))
+      } catch (error) {
+        this.ctx.logger.warn(`启动器正则「${pattern}」不是有效的正则表达式，已忽略:`, error)
+        this.patternCache.set(key, null)
+      }
+    }
+    return this.patternCache.get(key)
+  }
+}
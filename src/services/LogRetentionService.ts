@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs'
+import { dirname, join } from 'path'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { readZipFile, writeZipFile } from '../utils'
+import { FileRecordService } from './FileRecordService'
+
+// --- 接口与常量定义 ---
+
+// 一次清理的结果
+interface CleanupResult {
+  time: number // 清理时间
+  archived: string[] // 被归档的日期
+  deleted: string[] // 被删除的日期（含日志目录与归档）
+  freedBytes: number // 删除释放的空间
+  prunedIndex: number // 清理的文件索引条目数
+  prunedActive: number // 清理的活跃会话条目数
+}
+
+// 日志目录中按天划分的存储单元
+interface DayUsage {
+  date: string // 日期 (YYYY-MM-DD)
+  path: string // 日期目录或归档压缩包的路径
+  size: number // 占用空间（字节）
+  archived: boolean // 是否已归档
+}
+
+// 日期目录名的格式
+const DATE_DIR_REGEX = /^\d{4}-\d{2}-\d{2}$/
+// 插件启动后首次清理的延迟
+const INITIAL_CLEANUP_DELAY = 60 * 1000
+
+/**
+ * @class LogRetentionService
+ * @description 负责报告记录目录的保留策略：将过去的日期目录归档为压缩包，按保留天数和存储上限删除旧数据，并清理失效的状态条目。
+ */
+export class LogRetentionService {
+  private lastCleanup: CleanupResult | null = null
+  private running = false // 防止清理任务重叠执行
+
+  constructor(private ctx: Context, private config: Config, private fileRecordService: FileRecordService) {
+    // 启动后先执行一次清理，之后按配置的间隔定期执行
+    const interval = Math.max(1, this.config.logCleanupInterval ?? 24) * 3600 * 1000
+    ctx.setTimeout(() => this.runCleanup(), INITIAL_CLEANUP_DELAY)
+    ctx.setInterval(() => this.runCleanup(), interval)
+  }
+
+  /**
+   * @method runCleanup
+   * @description 按保留策略执行一次清理。当天的目录始终保留，不会被归档或删除。
+   * @returns 清理结果，已有清理任务在执行或清理失败时返回 null。
+   */
+  public async runCleanup(): Promise<CleanupResult | null> {
+    if (this.running) return null
+    this.running = true
+    try {
+      const result: CleanupResult = { time: Date.now(), archived: [], deleted: [], freedBytes: 0, prunedIndex: 0, prunedActive: 0 }
+      const today = this.getDateBefore(0)
+      const deleteBefore = this.config.logRetentionDays > 0 ? this.getDateBefore(this.config.logRetentionDays) : null
+      const archiveBefore = this.config.logArchiveDays > 0 ? this.getDateBefore(this.config.logArchiveDays) : null
+
+      // 1. 超过保留天数的数据直接删除，超过归档天数的日期目录打包归档
+      for (const day of await this.collectUsage()) {
+        if (day.date >= today) continue
+        if (deleteBefore && day.date < deleteBefore) {
+          await fs.rm(day.path, { recursive: true, force: true })
+          result.deleted.push(day.date)
+          result.freedBytes += day.size
+        } else if (archiveBefore && day.date < archiveBefore && !day.archived) {
+          await this.archiveDay(day.date)
+          result.archived.push(day.date)
+        }
+      }
+
+      // 2. 超过存储上限时，从最早的一天开始删除
+      const maxBytes = (this.config.logMaxSize ?? 0) * 1024 * 1024
+      if (maxBytes > 0) {
+        const usage = await this.collectUsage()
+        let total = usage.reduce((sum, day) => sum + day.size, 0)
+        for (const day of usage) {
+          if (total <= maxBytes) break
+          if (day.date >= today) continue
+          await fs.rm(day.path, { recursive: true, force: true })
+          result.deleted.push(day.date)
+          result.freedBytes += day.size
+          total -= day.size
+        }
+      }
+
+      // 3. 清理指向已删除或已归档记录的状态条目
+      const pruned = await this.fileRecordService.pruneState()
+      result.prunedIndex = pruned.index
+      result.prunedActive = pruned.active
+
+      if (result.archived.length || result.deleted.length) {
+        this.ctx.logger.info(`报告记录清理完成：归档 ${result.archived.length} 天，删除 ${result.deleted.length} 项，释放 ${formatBytes(result.freedBytes)}`)
+      }
+      this.lastCleanup = result
+      return result
+    } catch (error) {
+      this.ctx.logger.warn('报告记录清理失败:', error)
+      return null
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * @method getStatus
+   * @description 获取报告记录的磁盘占用、状态条目数量与当前的保留策略。
+   * @returns 状态信息文本
+   */
+  public async getStatus(): Promise<string> {
+    const usage = await this.collectUsage()
+    const live = usage.filter(day => !day.archived)
+    const archived = usage.filter(day => day.archived)
+    const sum = (days: DayUsage[]) => formatBytes(days.reduce((total, day) => total + day.size, 0))
+    const state = this.fileRecordService.getStateSummary()
+    const { logArchiveDays, logRetentionDays, logMaxSize } = this.config
+
+    const lines = [
+      '报告存储状态：',
+      `日志目录：${live.length} 天，${sum(live)}`,
+      `归档文件：${archived.length} 个，${sum(archived)}`,
+      `合计：${sum(usage)}${usage.length ? `（${usage[0].date} 至 ${usage[usage.length - 1].date}）` : ''}`,
+      `文件索引：${state.index} 条，活跃会话：${state.active} 个`,
+      `策略：${logArchiveDays > 0 ? `${logArchiveDays} 天后归档` : '不归档'}，${logRetentionDays > 0 ? `保留 ${logRetentionDays} 天` : '永久保留'}，${logMaxSize > 0 ? `上限 ${logMaxSize} MB` : '不限容量'}`,
+    ]
+    if (this.lastCleanup) {
+      const { time, archived: archivedDays, deleted, freedBytes, prunedIndex, prunedActive } = this.lastCleanup
+      lines.push(
+        `上次清理：${new Date(time).toLocaleString('zh-CN', { hour12: false })}，归档 ${archivedDays.length} 天，删除 ${deleted.length} 项，释放 ${formatBytes(freedBytes)}，清理状态 ${prunedIndex + prunedActive} 条`,
+      )
+    }
+    return lines.join('\n')
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 将某一天的目录打包为归档压缩包并删除原目录。
+   * 如果该日已有归档（例如归档后又有图片写入），则先将旧归档中的文件还原到目录中，再重新打包。
+   * 子目录中的文件以 `子目录/文件名` 的路径写入压缩包。
+   */
+  private async archiveDay(date: string): Promise<void> {
+    const dayDir = join(this.fileRecordService.dataDir, date)
+    const archivePath = join(this.fileRecordService.archiveDir, `${date}.zip`)
+    const existing = new Set(await listFiles(dayDir))
+    for (const entry of await readZipFile(archivePath, name => !existing.has(name))) {
+      const entryPath = join(dayDir, entry.name)
+      await fs.mkdir(dirname(entryPath), { recursive: true })
+      await fs.writeFile(entryPath, entry.data)
+    }
+    const files = await listFiles(dayDir)
+    await writeZipFile(
+      archivePath,
+      files.map(name => ({ name, path: join(dayDir, name) })),
+    )
+    await fs.rm(dayDir, { recursive: true, force: true })
+  }
+
+  /**
+   * @description 统计日志目录中每一天的占用，按日期由早到晚排列。
+   */
+  private async collectUsage(): Promise<DayUsage[]> {
+    const usage: DayUsage[] = []
+    const { dataDir, archiveDir } = this.fileRecordService
+
+    for (const date of await fs.readdir(dataDir).catch((): string[] => [])) {
+      if (!DATE_DIR_REGEX.test(date)) continue
+      const path = join(dataDir, date)
+      usage.push({ date, path, size: await getDirectorySize(path), archived: false })
+    }
+    for (const file of await fs.readdir(archiveDir).catch((): string[] => [])) {
+      const date = file.slice(0, -4)
+      if (!file.endsWith('.zip') || !DATE_DIR_REGEX.test(date)) continue
+      const path = join(archiveDir, file)
+      usage.push({ date, path, size: (await fs.stat(path)).size, archived: true })
+    }
+    return usage.sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  private getDateBefore = (days: number): string => new Date(Date.now() - days * 86400 * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * @description 递归列出目录中的所有文件，返回以 `/` 分隔的相对路径。
+ */
+async function listFiles(dirPath: string, prefix = ''): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const name = `${prefix}${entry.name}`
+    if (entry.isDirectory()) files.push(...(await listFiles(join(dirPath, entry.name), `${name}/`)))
+    else if (entry.isFile()) files.push(name)
+  }
+  return files
+}
+
+/**
+ * @description 递归计算目录的总大小（字节）。
+ */
+async function getDirectorySize(dirPath: string): Promise<number> {
+  let total = 0
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = join(dirPath, entry.name)
+    total += entry.isDirectory() ? await getDirectorySize(entryPath) : (await fs.stat(entryPath)).size
+  }
+  return total
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+}
@@ -0,0 +1,152 @@
+import { Context, h, Session } from 'koishi'
+import { Config } from '../index'
+import { fetchLimited, hashBuffer } from '../utils'
+
+// --- 接口与常量定义 ---
+
+/**
+ * @description OCR 识别方式。新的识别方式只需实现该接口，并在 OcrService 中按配置创建。
+ */
+export interface OcrProvider {
+  // 是否需要图片内容。不需要时只提供图片地址，不下载图片
+  readonly needsImageData: boolean
+  /**
+   * @param image 图片的下载地址与内容，下载失败或不需要内容时 data 为空
+   * @param session 当前会话
+   * @returns 识别出的文本，没有文字时返回空字符串，识别方式不可用时返回 null
+   */
+  recognize(image: { src: string; data?: Buffer }, session: Session): Promise<string | null>
+}
+
+// 支持的 OCR 识别方式
+export type OcrProviderType = 'onebot' | 'http'
+
+// 缓存的识别结果数量，超出时删除最早的结果
+const MAX_CACHE_SIZE = 1000
+// 单条消息中最多识别的图片数
+const MAX_IMAGES_PER_MESSAGE = 10
+// 下载图片的最大字节数，超出时中止下载
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024
+// OneBot 图片的文件名通常为内容的 MD5，可直接作为缓存的键而无需下载图片
+const IMAGE_MD5_REGEX = /^([0-9a-f]{32})(?:\.\w+)?$/i
+// 下载图片与调用 OCR 接口的超时时间（毫秒）
+const REQUEST_TIMEOUT = 15000
+
+/**
+ * @class OneBotOcrProvider
+ * @description 调用 OneBot 实现（如 NapCat、LLOneBot）自带的 `ocr_image` 接口。
+ */
+export class OneBotOcrProvider implements OcrProvider {
+  readonly needsImageData = false
+
+  async recognize(image: { src: string }, session: Session): Promise<string | null> {
+    // 检查机器人是否支持 OCR 功能
+    if (typeof session.bot.internal?.ocrImage !== 'function') return null
+    const ocrResult = await session.bot.internal.ocrImage(image.src)
+    if (!Array.isArray(ocrResult)) return ''
+    // 将所有识别结果的文本拼接起来
+    return ocrResult
+      .map(item => item.text)
+      .filter(text => text?.trim())
+      .join('\n')
+  }
+}
+
+/**
+ * @class HttpOcrProvider
+ * @description 调用本地或自建的 HTTP OCR 接口：以 JSON `{ "image": "<Base64>" }` POST 图片，接口返回 `{ "text": "..." }` 或 `[{ "text": "..." }]`。
+ */
+export class HttpOcrProvider implements OcrProvider {
+  readonly needsImageData = true
+
+  constructor(private ctx: Context, private endpoint: string) {}
+
+  async recognize(image: { src: string; data?: Buffer }): Promise<string | null> {
+    if (!image.data) return null
+    const result = await this.ctx.http.post(this.endpoint, { image: image.data.toString('base64') }, { timeout: REQUEST_TIMEOUT })
+    const lines: { text?: string }[] = Array.isArray(result) ? result : Array.isArray(result?.data) ? result.data : [result ?? {}]
+    return lines
+      .map(item => item?.text)
+      .filter(text => typeof text === 'string' && text.trim())
+      .join('\n')
+  }
+}
+
+/**
+ * @class OcrService
+ * @description 识别消息中所有图片的文字。识别结果按图片内容的摘要缓存，重复发送的相同截图不会再次识别。
+ */
+export class OcrService {
+  private provider: OcrProvider
+  private cache = new Map<string, string>() // key: 图片摘要，value: 识别出的文本
+
+  constructor(private ctx: Context, private config: Config) {
+    if (config.ocrProvider === 'http' && !config.ocrEndpoint) ctx.logger.warn('OCR 方式为 http 但未配置接口地址，已改用 OneBot 识别')
+    this.provider = config.ocrProvider === 'http' && config.ocrEndpoint ? new HttpOcrProvider(ctx, config.ocrEndpoint) : new OneBotOcrProvider()
+  }
+
+  /**
+   * @method recognizeImages
+   * @description 并行识别消息元素中所有图片的文字。
+   * @param elements 消息元素
+   * @param session 当前会话
+   * @returns 各图片识别结果按顺序拼接的文本，没有图片或都没有识别出文字时返回 null。
+   */
+  public async recognizeImages(elements: h[], session: Session): Promise<string | null> {
+    const images = (elements ?? []).filter(el => el.type === 'img' && el.attrs.src).slice(0, MAX_IMAGES_PER_MESSAGE)
+    const texts = (await Promise.all(images.map(image => this.recognize(image, session)))).filter(Boolean)
+    return texts.length ? texts.join('\n') : null
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 识别单张图片，优先使用缓存。图片文件名为内容的 MD5 时直接以其查找缓存；否则只在识别方式需要图片内容时下载，并以内容的 SHA-256 作为缓存的键。识别失败的结果不缓存，以便之后重试。
+   */
+  private async recognize(image: h, session: Session): Promise<string | null> {
+    const src: string = image.attrs.src
+    const md5 = String(image.attrs.file ?? '').match(IMAGE_MD5_REGEX)?.[1]
+    let key = md5 ? `md5:${md5.toLowerCase()}` : null
+    const cached = key && this.getCached(key)
+    if (typeof cached === 'string') return cached
+
+    const data = this.provider.needsImageData ? await this.downloadImage(src) : undefined
+    if (!key && data) {
+      key = `sha256:${hashBuffer(data)}`
+      const cached = this.getCached(key)
+      if (typeof cached === 'string') return cached
+    }
+
+    let text: string | null
+    try {
+      text = await this.provider.recognize({ src, data }, session)
+    } catch (error) {
+      this.ctx.logger.warn(`OCR 功能调用失败: ${error}`)
+      return null
+    }
+    if (key && text !== null) {
+      this.cache.set(key, text)
+      if (this.cache.size > MAX_CACHE_SIZE) this.cache.delete(this.cache.keys().next().value)
+    }
+    return text
+  }
+
+  // 读取缓存的识别结果，并重新插入，使常用的结果不会被当作最早的结果删除
+  private getCached(key: string): string | undefined {
+    if (!this.cache.has(key)) return undefined
+    const cached = this.cache.get(key)
+    this.cache.delete(key)
+    this.cache.set(key, cached)
+    return cached
+  }
+
+  // 下载图片，先按响应头检查大小，失败或过大时返回 undefined
+  private async downloadImage(src: string): Promise<Buffer | undefined> {
+    try {
+      return (await fetchLimited(this.ctx, src, MAX_IMAGE_SIZE, REQUEST_TIMEOUT)) ?? undefined
+    } catch (error) {
+      this.ctx.logger.debug(`下载图片失败: ${src}`, error)
+      return undefined
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { fetchLimited } from '../utils'
+
+// --- 接口与常量定义 ---
+
+/**
+ * @description 从粘贴链接抓取的日志，作为虚拟的上传文件交给报告记录与报错指引处理。
+ */
+export interface PasteFile {
+  name: string // 虚拟文件名，例如 `mclo.gs-AbCdEf.log`
+  url: string // 用户发送的原始链接
+  data: Buffer // 日志原文
+}
+
+// 配置中的一个粘贴站点
+interface PasteHost {
+  host: string // 站点域名（可带端口），例如 `mclo.gs`
+  rawUrl: string // 原文地址模板，`{path}` 会被替换为链接中域名之后的路径
+}
+
+// 默认支持的粘贴站点
+export const DEFAULT_PASTE_HOSTS: PasteHost[] = [
+  { host: 'mclo.gs', rawUrl: 'https://api.mclo.gs/1/raw/{path}' },
+  { host: 'pastebin.com', rawUrl: 'https://pastebin.com/raw/{path}' },
+  { host: 'gist.github.com', rawUrl: 'https://gist.githubusercontent.com/{path}/raw' },
+]
+// 抓取原文的最大字节数，与上传文件的记录上限保持一致
+const MAX_PASTE_SIZE = 16 * 1024 * 1024
+// 单条消息中最多处理的链接数
+const MAX_LINKS_PER_MESSAGE = 3
+// 抓取原文的超时时间（毫秒）
+const FETCH_TIMEOUT = 15000
+
+/**
+ * @class PasteLinkService
+ * @description 识别消息中配置的粘贴站点链接（如 mclo.gs、pastebin、gist），并通过 `ctx.http` 抓取日志原文。
+ */
+export class PasteLinkService {
+  private hosts: { pattern: RegExp; host: string; rawUrl: string }[] = []
+
+  constructor(private ctx: Context, private config: Config) {
+    for (const { host, rawUrl } of this.config.pasteHosts ?? DEFAULT_PASTE_HOSTS) {
+      if (!host || !rawUrl?.includes('{path}')) {
+        ctx.logger.warn(`粘贴站点「${host}」的原文地址缺少 {path}，已忽略`)
+        continue
+      }
+      const escaped = host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      this.hosts.push({ pattern: new RegExp(`https?://(?:www\\.)?${escaped}/([\\w\\-./~%]+)`, 'gi'), host, rawUrl })
+    }
+  }
+
+  /**
+   * @method fetchLinks
+   * @description 抓取消息中所有粘贴链接的原文。抓取失败或内容为空的链接会被忽略。
+   * @param content 消息内容
+   * @returns 抓取到的日志列表，消息中没有粘贴链接时返回空数组。
+   */
+  public async fetchLinks(content: string): Promise<PasteFile[]> {
+    const files: PasteFile[] = []
+    for (const link of this.extractLinks(content)) {
+      try {
+        const data = await fetchLimited(this.ctx, link.rawUrl, MAX_PASTE_SIZE, FETCH_TIMEOUT)
+        if (!data?.length) continue
+        files.push({ name: link.name, url: link.url, data })
+      } catch (error) {
+        this.ctx.logger.warn(`抓取粘贴链接失败: ${link.url} (原文: ${link.rawUrl})`, error)
+      }
+    }
+    return files
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 提取消息中的粘贴链接，同一链接只处理一次。
+   */
+  private extractLinks(content: string): { url: string; rawUrl: string; name: string }[] {
+    const links = new Map<string, { url: string; rawUrl: string; name: string }>()
+    for (const { pattern, host, rawUrl } of this.hosts) {
+      for (const match of content?.matchAll(pattern) ?? []) {
+        // 去掉句末的标点与多余的斜杠；原文链接（如 pastebin.com/raw/<id>）去掉开头的 raw/，避免原文地址中重复
+        const path = match[1].replace(/[./]+$/, '').replace(/^raw\//i, '')
+        if (!path || links.has(`${host}/${path}`)) continue
+        links.set(`${host}/${path}`, {
+          url: match[0],
+          rawUrl: rawUrl.replace('{path}', path),
+          name: `${host}-${path}.log`.replace(/[^\w.-]+/g, '_'),
+        })
+      }
+    }
+    return [...links.values()].slice(0, MAX_LINKS_PER_MESSAGE)
+  }
+}
@@ -0,0 +1,157 @@
+import { isUtf8 } from 'buffer'
+import { promises as fs } from 'fs'
+import { parse } from 'path'
+import { promisify } from 'util'
+import { gunzip, gzip } from 'zlib'
+import iconv from 'iconv-lite'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { createZipBuffer, readZipEntries, MAX_INFLATE_SIZE } from '../utils'
+
+// --- 接口与常量定义 ---
+
+// 一条脱敏规则
+interface RedactionRule {
+  name: string // 规则名称，用于统计
+  pattern: RegExp // 匹配敏感内容的正则表达式（全局匹配）
+  replacement: string // 替换内容，支持 `$1` 等分组引用
+}
+
+/**
+ * @description 各规则的脱敏次数，key: 规则名称, value: 替换次数。
+ */
+export type RedactionCounts = Record<string, number>
+
+// 替换敏感内容使用的占位符
+const MASK = '***'
+
+// 内置的脱敏规则
+const BUILTIN_RULES: RedactionRule[] = [
+  {
+    name: '访问令牌',
+    pattern: /(--accessToken\s+|"accessToken"\s*:\s*"|\baccessToken[=:]\s*)[^\s"',]+/gi,
+    replacement: `$1${MASK}`,
+  },
+  {
+    name: '会话 ID',
+    pattern: /(Session ID is |--session\s+|\bsessionId[=:]\s*)[^\s"',]+/gi,
+    replacement: `$1${MASK}`,
+  },
+  {
+    // 未被上面两条规则覆盖的 JWT 格式令牌
+    name: '访问令牌',
+    pattern: /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]+/g,
+    replacement: MASK,
+  },
+  {
+    name: '系统用户名',
+    pattern: /([A-Za-z]:(?:\\\\|\\|\/)(?:Users|Documents and Settings)(?:\\\\|\\|\/))[^\\/\s"':;]+|(\/(?:home|Users)\/)[^/\s"':;]+/gi,
+    replacement: `$1$2${MASK}`,
+  },
+  {
+    // 跳过回环地址，并通过前后字符排除形如 `forge-1.2.3.4` 的版本号
+    name: 'IP 地址',
+    pattern: /(?<![\w.-])(?!127\.|0\.0\.0\.0)(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?![\w.])/g,
+    replacement: MASK,
+  },
+]
+// 需要脱敏的文本文件扩展名（含压缩包内的文件）
+const TEXT_EXTENSIONS = ['.log', '.txt', '.json', '.cfg', '.conf', '.properties', '.toml', '.ini', '.xml', '.yml', '.yaml', '.bat', '.cmd', '.sh', '.ps1']
+// 无法读取内容的压缩格式，其中可能含有未脱敏的文本
+const UNSUPPORTED_ARCHIVE_EXTENSIONS = ['.7z', '.rar', '.tar', '.tgz', '.xz', '.txz', '.bz2', '.tbz2', '.zst', '.lz', '.lzma', '.z']
+
+const gunzipAsync = promisify(gunzip)
+const gzipAsync = promisify(gzip)
+
+/**
+ * @class RedactionService
+ * @description 负责在保存报告前隐藏其中的敏感信息，包括访问令牌、会话 ID、系统用户名与 IP 地址，以及配置中的自定义规则。
+ */
+export class RedactionService {
+  private rules: RedactionRule[]
+
+  constructor(private ctx: Context, private config: Config) {
+    this.rules = [...BUILTIN_RULES]
+    for (const rule of this.config.redactRules || []) {
+      try {
+        this.rules.push({ name: rule.name || rule.pattern, pattern: new RegExp(rule.pattern, 'gi'), replacement: rule.replacement ?? MASK })
+      } catch (error) {
+        ctx.logger.warn(`脱敏规则「${rule.pattern}」不是有效的正则表达式，已忽略:`, error)
+      }
+    }
+  }
+
+  /**
+   * @method redactText
+   * @description 对一段文本执行所有脱敏规则。
+   * @param text 原始文本
+   * @param counts 可选，累加各规则脱敏次数的对象
+   * @returns 脱敏后的文本。
+   */
+  public redactText(text: string, counts: RedactionCounts = {}): string {
+    for (const rule of this.rules) {
+      const matches = text.match(rule.pattern)
+      if (!matches) continue
+      counts[rule.name] = (counts[rule.name] ?? 0) + matches.length
+      text = text.replace(rule.pattern, rule.replacement)
+    }
+    return text
+  }
+
+  /**
+   * @method saveRedactedFile
+   * @description 对报告文件的内容执行脱敏后再写入文件，原始内容不会写入磁盘。支持纯文本日志、gz 压缩日志以及 zip 压缩包（含嵌套的压缩包）内的文本文件，文本保持原有的编码。
+   * @param filePath 报告文件的保存路径
+   * @param data 报告文件的原始内容
+   * @returns 各规则的脱敏次数，没有内容被替换时返回空对象；无法完整脱敏（如压缩包内有无法解压的文件，或含有 7z、xz 等无法读取的压缩文件）时不写入文件并返回 null。
+   */
+  public async saveRedactedFile(filePath: string, data: Buffer): Promise<RedactionCounts | null> {
+    const counts: RedactionCounts = {}
+    try {
+      const redacted = await this.redactBuffer(parse(filePath).base, data, counts)
+      await fs.writeFile(filePath, redacted ?? data)
+      return counts
+    } catch (error) {
+      this.ctx.logger.warn(`报告文件脱敏失败，不保存报告文件: ${filePath}`, error)
+      return null
+    }
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 按文件类型脱敏文件内容，zip 压缩包（含嵌套的压缩包）脱敏后重新打包。内容没有变化或不是文本文件时返回 null，无法解压或无法读取的压缩文件抛出错误。
+   */
+  private async redactBuffer(fileName: string, data: Buffer, counts: RedactionCounts): Promise<Buffer | null> {
+    const ext = parse(fileName).ext.toLowerCase()
+    if (UNSUPPORTED_ARCHIVE_EXTENSIONS.includes(ext)) throw new Error(`无法读取压缩文件 ${fileName}`)
+    if (ext === '.zip') {
+      let total = 0
+      const entries = await readZipEntries(data, () => {
+        total++
+        return true
+      })
+      // 有无法解压的文件时无法确认其中没有敏感信息
+      if (entries.length !== total) throw new Error(`压缩包中有 ${total - entries.length} 个文件无法解压`)
+      let changed = false
+      const files: { name: string; data: Buffer }[] = []
+      for (const entry of entries) {
+        const redacted = await this.redactBuffer(entry.name, entry.data, counts)
+        if (redacted) changed = true
+        files.push({ name: entry.name, data: redacted ?? entry.data })
+      }
+      return changed ? createZipBuffer(files) : null
+    }
+    if (ext === '.gz') {
+      const inner = await this.redactBuffer(parse(fileName).name, await gunzipAsync(data, { maxOutputLength: MAX_INFLATE_SIZE }), counts)
+      return inner ? gzipAsync(inner) : null
+    }
+    if (!TEXT_EXTENSIONS.includes(ext)) return null
+    // 不是 UTF-8 的文本按 GB18030（兼容 GBK）处理，写回时保持原有的编码
+    const encoding = isUtf8(data) ? 'utf-8' : 'gb18030'
+    const before = Object.values(counts).reduce((sum, count) => sum + count, 0)
+    const text = this.redactText(iconv.decode(data, encoding, { stripBOM: false }), counts)
+    const after = Object.values(counts).reduce((sum, count) => sum + count, 0)
+    return after > before ? iconv.encode(text, encoding) : null
+  }
+}
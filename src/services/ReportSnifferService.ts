@@ -0,0 +1,163 @@
+import { parse } from 'path'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { decodeText, fetchLimited, inflateHead, readZipEntries } from '../utils'
+import { LauncherConfig, LauncherRegistryService } from './LauncherRegistryService'
+
+// --- 接口与常量定义 ---
+
+// 报告的问题类型
+export type ReportType = 'launcher' | 'crash' | 'jvm' | 'log'
+
+/**
+ * @description 一次内容识别的结果。
+ */
+export interface ReportInfo {
+  launcher: LauncherConfig | null // 生成报告的启动器，无法识别时为 null
+  type: ReportType | null // 报告类型，无法识别时为 null
+}
+
+// 问题类型的识别规则，文件名或内容任一匹配即可
+interface ReportTypeRule {
+  type: ReportType
+  name: RegExp // 匹配文件名（或压缩包内路径）
+  content: RegExp // 匹配文件开头的内容
+}
+
+// 各问题类型的显示名称
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = { launcher: '启动器导出报告', crash: '游戏崩溃报告', jvm: 'JVM 崩溃日志', log: '游戏日志' }
+
+// 问题类型的识别规则，按优先级排列，命中第一条即停止
+const REPORT_TYPE_RULES: ReportTypeRule[] = [
+  {
+    type: 'jvm',
+    name: /(^|\/)hs_err_pid\d+\.log$/i,
+    content: /^# A fatal error has been detected by the Java Runtime Environment/m,
+  },
+  {
+    type: 'crash',
+    name: /(^|\/)crash-\d{4}-\d{2}-\d{2}_\d{2}\.\d{2}\.\d{2}-(client|server)\.txt$/i,
+    content: /^---- Minecraft Crash Report ----/m,
+  },
+  {
+    type: 'log',
+    name: /(^|\/)(latest|debug)\.log(\.gz)?$|(^|\/)\d{4}-\d{2}-\d{2}-\d+\.log\.gz$/i,
+    content: /^\[\d{2}:\d{2}:\d{2}\] \[[^\]]+\/(INFO|WARN|ERROR|DEBUG)\]/m,
+  },
+]
+// 会读取内容进行识别的文件扩展名（含压缩包内的文件）
+const SNIFF_EXTENSIONS = ['.zip', '.log', '.txt', '.json', '.gz']
+// 每个文件只读取开头的部分内容，日志的特征通常都在开头
+const SAMPLE_BYTES = 64 * 1024
+// 压缩包内最多读取的文件数
+const MAX_SAMPLE_ENTRIES = 32
+// 下载报告文件的最大字节数，与报告记录的文件大小上限保持一致
+const MAX_DOWNLOAD_SIZE = 16 * 1024 * 1024
+// 下载报告文件的超时时间（毫秒）
+const DOWNLOAD_TIMEOUT = 60000
+// 下载完成后保留结果的时间（毫秒），供处理同一文件的其他服务使用
+const DOWNLOAD_KEEP_TIME = 60000
+
+/**
+ * @class ReportSnifferService
+ * @description 根据文件名与文件内容识别报告由哪个启动器生成，以及报告属于游戏崩溃报告、JVM 崩溃日志还是游戏日志。文件被重命名时，仍可通过压缩包内的文件与日志内容识别。
+ */
+export class ReportSnifferService {
+  private downloads = new Map<string, Promise<Buffer>>() // 进行中与刚完成的下载，key: 消息 ID 与文件名
+
+  constructor(private ctx: Context, private config: Config, private launcherRegistry: LauncherRegistryService) {}
+
+  /**
+   * @method download
+   * @description 下载消息中的报告文件。报错指引与报告记录会处理同一个文件，同一消息中的同一文件只下载一次。
+   * @param messageId 文件所在的消息 ID
+   * @param fileName 文件名
+   * @param url 下载地址
+   * @returns 文件内容，下载失败或超过 16 MB 时抛出错误。
+   */
+  public download(messageId: string, fileName: string, url: string): Promise<Buffer> {
+    const key = `${messageId}:${fileName}`
+    if (!this.downloads.has(key)) {
+      const download = fetchLimited(this.ctx, url, MAX_DOWNLOAD_SIZE, DOWNLOAD_TIMEOUT).then(data => {
+        if (!data) throw new Error(`文件超过 ${MAX_DOWNLOAD_SIZE / 1024 / 1024} MB`)
+        return data
+      })
+      this.downloads.set(key, download)
+      const release = () => this.ctx.setTimeout(() => this.downloads.delete(key), DOWNLOAD_KEEP_TIME)
+      download.then(release, release)
+    }
+    return this.downloads.get(key)
+  }
+
+  /**
+   * @method isSniffable
+   * @description 判断文件是否可以读取内容进行识别。
+   * @param fileName 文件名
+   */
+  public isSniffable(fileName: string): boolean {
+    return SNIFF_EXTENSIONS.includes(parse(fileName).ext.toLowerCase())
+  }
+
+  /**
+   * @method identify
+   * @description 识别报告的启动器与问题类型。优先根据文件名识别启动器，其次根据压缩包内的文件路径与日志内容识别。
+   * @param fileName 文件名
+   * @param data 可选，文件内容。未提供时只根据文件名识别
+   * @returns 识别结果
+   */
+  public async identify(fileName: string, data?: Buffer): Promise<ReportInfo> {
+    const samples = [{ name: fileName, text: '' }]
+    if (data && this.isSniffable(fileName)) {
+      try {
+        samples.push(...(await this.sample(fileName, data)))
+      } catch (error) {
+        this.ctx.logger.warn(`读取报告内容失败: ${fileName}`, error)
+      }
+    }
+
+    const launcher =
+      this.launcherRegistry.detectLauncherFromFile(fileName) ??
+      this.launcherRegistry.detectLauncherFromContent(samples.map(sample => `${sample.name}\n${sample.text}`).join('\n'))
+    const rule = REPORT_TYPE_RULES.find(rule => samples.some(sample => rule.name.test(sample.name) || rule.content.test(sample.text)))
+    return { launcher, type: rule?.type ?? (launcher ? 'launcher' : null) }
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 按文件类型提取用于识别的内容。zip 压缩包返回包内所有文件的路径，以及其中文本文件开头的内容。
+   */
+  private async sample(fileName: string, data: Buffer): Promise<{ name: string; text: string }[]> {
+    const ext = parse(fileName).ext.toLowerCase()
+    if (ext === '.zip') {
+      const names: string[] = []
+      // 每个文件只解压开头的内容
+      const entries = await readZipEntries(
+        data,
+        name => {
+          names.push(name)
+          return names.length <= MAX_SAMPLE_ENTRIES && this.isSniffable(name) && parse(name).ext.toLowerCase() !== '.zip'
+        },
+        { headSize: SAMPLE_BYTES },
+      )
+      const texts = new Map(await Promise.all(entries.map(async entry => [entry.name, (await this.sample(entry.name, entry.data))[0]?.text ?? ''] as const)))
+      return names.map(name => ({ name, text: texts.get(name) ?? '' }))
+    }
+    if (ext === '.gz') {
+      // 只解压开头的一部分，允许数据不完整
+      const inner = await inflateHead(data, 'gzip', SAMPLE_BYTES)
+      return [{ name: parse(fileName).name, text: sampleText(inner) }]
+    }
+    return [{ name: fileName, text: sampleText(data) }]
+  }
+}
+
+/**
+ * @description 读取内容开头的文本。截断处可能落在多字节字符中间，因此只保留最后一个完整的行。
+ */
+const sampleText = (data: Buffer): string => {
+  if (data.length < SAMPLE_BYTES) return decodeText(data)
+  const head = data.subarray(0, SAMPLE_BYTES)
+  const end = head.lastIndexOf(0x0a)
+  return decodeText(end > 0 ? head.subarray(0, end) : head)
+}
@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs'
+import { dirname, join } from 'path'
+import { Context } from 'koishi'
+import { loadJsonFile } from '../utils'
+
+// --- 接口与常量定义 ---
+
+// 一条规则的修改，before 为空表示新增，after 为空表示删除
+export interface RuleChange<T> {
+  before?: T
+  after?: T
+}
+
+// 一次修改操作，导入规则集等批量操作的所有修改记为同一个修订
+export interface RuleRevision<T> {
+  id: number // 修订号，从 1 开始递增
+  operator: string // 操作者 ID
+  time: number // 修改时间
+  action: string // 操作名称，例如「添加」「导入」「撤销 #3」
+  changes: RuleChange<T>[]
+}
+
+// 保留的修订数，超出时删除最早的修订
+const MAX_REVISIONS = 1000
+// 修订的保留时间（毫秒），超过该时间的修订被删除，只被这些修订引用的素材随之可以清理
+const MAX_REVISION_AGE = 30 * 86400 * 1000
+// 查看历史时最多列出的修订数
+const MAX_LISTED_REVISIONS = 15
+// 查看单条规则的历史时，回复内容等字段的预览长度
+const PREVIEW_LENGTH = 60
+
+/**
+ * @class RuleHistoryService
+ * @description 记录关键词等规则的修改历史，包括操作者、时间以及修改前后的内容，用于查看历史、撤销与回滚。
+ */
+export class RuleHistoryService<T extends { text: string }> {
+  private revisions: RuleRevision<T>[] = []
+  private historyFilePath: string
+
+  /**
+   * @param fileName 历史记录的文件名，例如 `keyword_history.json`
+   */
+  constructor(private ctx: Context, dataPath: string, fileName: string) {
+    this.historyFilePath = join(dataPath, fileName)
+    loadJsonFile<RuleRevision<T>[]>(this.historyFilePath, [])
+      .then(revisions => {
+        // 加载完成前产生的修订以内存中的为准
+        this.revisions = [...revisions, ...this.revisions]
+        this.prune()
+      })
+      .catch(err => ctx.logger.error(`加载修改历史失败: ${fileName}`, err))
+  }
+
+  /**
+   * @method record
+   * @description 记录一次修改。规则内容会被复制保存，之后对规则的修改不影响历史。历史保存失败时不保留该修订并抛出错误。
+   * @param operator 操作者 ID
+   * @param action 操作名称
+   * @param changes 修改的规则
+   * @returns 新的修订，没有修改时返回 null。
+   */
+  public async record(operator: string, action: string, changes: RuleChange<T>[]): Promise<RuleRevision<T> | null> {
+    if (!changes.length) return null
+    const revision: RuleRevision<T> = {
+      id: (this.revisions.at(-1)?.id ?? 0) + 1,
+      operator,
+      time: Date.now(),
+      action,
+      changes: structuredClone(changes),
+    }
+    this.revisions.push(revision)
+    this.prune()
+    try {
+      await fs.mkdir(dirname(this.historyFilePath), { recursive: true })
+      await fs.writeFile(this.historyFilePath, JSON.stringify(this.revisions, null, 2))
+    } catch (error) {
+      this.revisions = this.revisions.filter(item => item !== revision)
+      throw error
+    }
+    return revision
+  }
+
+  /**
+   * @method getRevision
+   * @description 获取指定的修订，未指定时获取最近的修订。
+   * @param id 修订号
+   */
+  public getRevision(id?: number): RuleRevision<T> | undefined {
+    return id === undefined ? this.revisions.at(-1) : this.revisions.find(revision => revision.id === id)
+  }
+
+  /**
+   * @method getVersion
+   * @description 获取规则在指定修订之后的内容。
+   * @param text 规则名称，修订中重命名前后的名称均可
+   * @param id 修订号
+   * @returns 修订不存在或未修改该规则时返回提示信息；规则在该修订中被删除时 rule 为空。names 为该规则在修订中修改后与修改前的名称，用于查找规则当前的内容。
+   */
+  public getVersion(text: string, id: number): { rule?: T; names: string[] } | string {
+    const revision = this.getRevision(id)
+    if (!revision) return `未找到修订 #${id}`
+    const change = revision.changes.find(change => change.before?.text === text || change.after?.text === text)
+    if (!change) return `修订 #${id} 没有修改「${text}」`
+    return { rule: change.after, names: [...new Set([change.after?.text, change.before?.text].filter(Boolean))] }
+  }
+
+  /**
+   * @method listRules
+   * @description 列出历史中保存的所有规则内容，用于判断素材等资源是否仍被引用。过期的修订会先被删除，不再计入。
+   */
+  public listRules(): T[] {
+    this.prune()
+    return this.revisions.flatMap(revision => revision.changes.flatMap(change => [change.before, change.after].filter(Boolean)))
+  }
+
+  /**
+   * @method formatHistory
+   * @description 生成修改历史的文本，由新到旧排列。
+   * @param label 规则的名称，例如「关键词」
+   * @param text 可选，只列出修改过该规则的修订，并显示修改后的内容
+   * @returns 修改历史文本。
+   */
+  public formatHistory(label: string, text?: string): string {
+    const revisions = text ? this.revisions.filter(revision => revision.changes.some(change => change.before?.text === text || change.after?.text === text)) : this.revisions
+    if (!revisions.length) return text ? `${label}「${text}」没有修改历史` : `没有${label}修改历史`
+
+    const lines = [text ? `${label}「${text}」的修改历史：` : `${label}修改历史：`]
+    for (const revision of revisions.slice(-MAX_LISTED_REVISIONS).reverse()) {
+      const header = `#${revision.id} ${new Date(revision.time).toLocaleString('zh-CN', { hour12: false })} ${revision.operator} ${revision.action}`
+      if (!text) {
+        const names = [...new Set(revision.changes.map(change => (change.after ?? change.before).text))]
+        lines.push(`${header}：${names.slice(0, 5).join(' | ')}${names.length > 5 ? ` 等 ${names.length} 条` : ''}`)
+        continue
+      }
+      const change = revision.changes.find(change => change.before?.text === text || change.after?.text === text)
+      lines.push(`${header}：${this.describeChange(change)}`)
+    }
+    if (revisions.length > MAX_LISTED_REVISIONS) lines.push(`…共 ${revisions.length} 个修订，仅显示最近 ${MAX_LISTED_REVISIONS} 个`)
+    return lines.join('\n')
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 删除超过保留时间或超出保留数量的最早的修订。
+   */
+  private prune(): void {
+    const expireBefore = Date.now() - MAX_REVISION_AGE
+    const expired = this.revisions.findIndex(revision => revision.time >= expireBefore)
+    this.revisions.splice(0, Math.max(expired === -1 ? this.revisions.length : expired, this.revisions.length - MAX_REVISIONS))
+  }
+
+  /**
+   * @description 描述一条规则的修改：新增、删除、重命名或修改的字段及其新内容。
+   */
+  private describeChange({ before, after }: RuleChange<T>): string {
+    if (!before) return `新增「${after.text}」`
+    if (!after) return `删除「${before.text}」`
+    const parts: string[] = []
+    if (before.text !== after.text) parts.push(`重命名「${before.text}」为「${after.text}」`)
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(
+      field => field !== 'text' && JSON.stringify(before[field]) !== JSON.stringify(after[field]),
+    )
+    for (const field of fields) {
+      const value = after[field] === undefined ? '（已移除）' : typeof after[field] === 'string' ? after[field] : JSON.stringify(after[field])
+      parts.push(`${field} → ${value.length > PREVIEW_LENGTH ? `${value.slice(0, PREVIEW_LENGTH)}…` : value}`)
+    }
+    return parts.join('；') || '内容未变化'
+  }
+}
@@ -0,0 +1,174 @@
+import { parse } from 'path'
+import { Context } from 'koishi'
+import { Config } from '../index'
+import { isUserWhitelisted } from '../utils'
+import { FileRecordService } from './FileRecordService'
+import { FileReplyService } from './FileReplyService'
+
+// --- 接口与常量定义 ---
+
+// 一个时间范围内的统计结果
+interface Statistics {
+  total: number // 报告总数
+  closed: number // 已关闭的报告数
+  byDate: Map<string, number> // 每天的报告数
+  byGroup: Map<string, number> // 每个群组的报告数
+  byLauncher: Map<string, number> // 每个启动器的报告数
+  redirects: number // 发错群次数
+  redirectsByGroup: Map<string, number> // 每个群组的发错群次数
+  firstReplyTimes: number[] // 每个报告从上传到首次被回复的时长（毫秒）
+}
+
+// 周报的发送时间：每周一 9:00
+const DIGEST_WEEKDAY = 1
+const DIGEST_HOUR = 9
+// 统计中未知群组或启动器的显示名称
+const UNKNOWN_LABEL = '未知'
+
+/**
+ * @class StatisticsService
+ * @description 汇总报告记录与发错群记录，统计各群组、各启动器的报告数量以及首次回复时间，并可定期发送周报。
+ */
+export class StatisticsService {
+  constructor(
+    private ctx: Context,
+    private config: Config,
+    private fileRecordService?: FileRecordService,
+    private fileReplyService?: FileReplyService,
+  ) {
+    if (this.config.statDigestTarget) this.scheduleDigest()
+  }
+
+  /**
+   * @method getReport
+   * @description 生成指定日期范围内的统计报告。
+   * @param since 起始日期 (YYYY-MM-DD，含当天)
+   * @param until 截止日期 (YYYY-MM-DD，含当天)
+   * @returns 统计报告文本
+   */
+  public async getReport(since: string, until: string): Promise<string> {
+    const stats = await this.collect(since, until)
+    const lines = [`报告统计（${since} 至 ${until}）：`]
+
+    if (this.fileRecordService) {
+      lines.push(`报告总数：${stats.total}，已关闭 ${stats.closed}`)
+      if (stats.total) {
+        lines.push(
+          `按日期：${formatCounts(stats.byDate, false)}`,
+          `按群组：${formatCounts(stats.byGroup)}`,
+          `按启动器：${formatCounts(stats.byLauncher)}`,
+        )
+      }
+      const median = getMedian(stats.firstReplyTimes)
+      lines.push(median === null ? '首次回复：暂无数据' : `首次回复中位时长：${formatDuration(median)}（${stats.firstReplyTimes.length} 个报告）`)
+    }
+    if (this.fileReplyService) {
+      lines.push(`发错群：${stats.redirects} 次${stats.redirects ? `，${formatCounts(stats.redirectsByGroup)}` : ''}`)
+    }
+    return lines.join('\n')
+  }
+
+  // --- 私有辅助方法 ---
+
+  /**
+   * @description 统计日期范围内的报告记录与发错群记录。
+   */
+  private async collect(since: string, until: string): Promise<Statistics> {
+    const stats: Statistics = {
+      total: 0,
+      closed: 0,
+      byDate: new Map(),
+      byGroup: new Map(),
+      byLauncher: new Map(),
+      redirects: 0,
+      redirectsByGroup: new Map(),
+      firstReplyTimes: [],
+    }
+
+    for (const recordId of (await this.fileRecordService?.listRecordIds(since, until)) ?? []) {
+      const record = await this.fileRecordService.loadRecord(recordId)
+      if (!record) continue
+      const { dir } = parse(recordId)
+      const launcher = this.fileRecordService.getRecordLauncher(record)
+      stats.total++
+      if (record.status) stats.closed++
+      increment(stats.byDate, dir)
+      increment(stats.byGroup, record.channelId ?? UNKNOWN_LABEL)
+      increment(stats.byLauncher, launcher?.name ?? UNKNOWN_LABEL)
+
+      // 首次回复为白名单用户（上传者本人除外）第一次发言，旧记录缺少时间信息时不参与统计
+      const firstReply = record.messages.find(msg => msg.userId !== record.uploaderId && isUserWhitelisted(msg.userId, this.config))
+      if (record.createdAt && firstReply?.timestamp) stats.firstReplyTimes.push(Math.max(0, firstReply.timestamp - record.createdAt))
+    }
+
+    // 发错群记录按 UTC 日期筛选，与记录目录的日期保持一致
+    const untilTime = new Date(`${until}T00:00:00Z`).getTime() + 86400 * 1000
+    for (const event of this.fileReplyService?.getRedirects(new Date(`${since}T00:00:00Z`).getTime()) ?? []) {
+      if (event.time >= untilTime) continue
+      stats.redirects++
+      increment(stats.redirectsByGroup, event.channelId)
+    }
+    return stats
+  }
+
+  /**
+   * @description 预约下一次周报的发送，发送后自动预约下一周。
+   */
+  private scheduleDigest(): void {
+    const now = new Date()
+    const next = new Date(now)
+    next.setHours(DIGEST_HOUR, 0, 0, 0)
+    next.setDate(next.getDate() + ((DIGEST_WEEKDAY - next.getDay() + 7) % 7))
+    if (next <= now) next.setDate(next.getDate() + 7)
+
+    this.ctx.setTimeout(async () => {
+      await this.sendDigest()
+      this.scheduleDigest()
+    }, next.getTime() - now.getTime())
+  }
+
+  /**
+   * @description 将最近 7 天（不含今天）的统计报告发送到配置的群组。
+   */
+  private async sendDigest(): Promise<void> {
+    const bot = this.ctx.bots.find(b => b.platform === 'onebot')
+    if (!bot) {
+      this.ctx.logger.warn('未找到可用的 OneBot 实例，无法发送统计周报')
+      return
+    }
+    const getDate = (days: number) => new Date(Date.now() - days * 86400 * 1000).toISOString().slice(0, 10)
+    try {
+      const report = await this.getReport(getDate(7), getDate(1))
+      await bot.sendMessage(this.config.statDigestTarget, `【每周统计】\n${report}`)
+    } catch (error) {
+      this.ctx.logger.warn(`发送统计周报到 ${this.config.statDigestTarget} 失败:`, error)
+    }
+  }
+}
+
+const increment = (counts: Map<string, number>, key: string): void => {
+  counts.set(key, (counts.get(key) ?? 0) + 1)
+}
+
+/**
+ * @description 将计数格式化为一行文本。默认按数量由多到少排列，否则按键排列（用于日期）。
+ */
+const formatCounts = (counts: Map<string, number>, byCount = true): string =>
+  [...counts]
+    .sort(byCount ? (a, b) => b[1] - a[1] : (a, b) => a[0].localeCompare(b[0]))
+    .map(([key, count]) => `${key} ${count}`)
+    .join(' | ')
+
+const getMedian = (values: number[]): number | null => {
+  if (!values.length) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return `${Math.round(ms / 1000)} 秒`
+  if (minutes < 60) return `${minutes} 分钟`
+  return `${Math.floor(minutes / 60)} 小时 ${minutes % 60} 分钟`
+}
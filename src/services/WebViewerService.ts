@@ -0,0 +1,148 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { parse } from 'path'
+import { Context } from 'koishi'
+import {} from '@koishijs/plugin-server'
+import type { Context as KoaContext } from 'koa'
+import { Config } from '../index'
+import { escapeHtml } from '../utils'
+import { FileRecordService, RECORD_STATUS_LABELS } from './FileRecordService'
+
+// --- 接口与常量定义 ---
+
+// 网页查看器的路由前缀
+const BASE_PATH = '/mcl-grouptool/records'
+// 日期目录名的格式
+const DATE_DIR_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * @class WebViewerService
+ * @description 在 Koishi 的 server 服务上注册网页路由，用于在浏览器中浏览报告记录、查看对话图片和下载报告文件。所有页面都需要携带配置中的访问令牌。
+ */
+export class WebViewerService {
+  constructor(private ctx: Context, private config: Config, private fileRecordService: FileRecordService) {
+    if (!this.config.webViewerToken) {
+      ctx.logger.warn('未配置报告网页查看的访问令牌，网页查看器不会启用')
+      return
+    }
+    // server 服务为可选依赖，可用时才注册路由
+    ctx.inject(['server'], ctx => this.registerRoutes(ctx))
+  }
+
+  // --- 私有辅助方法 ---
+
+  private registerRoutes(ctx: Context): void {
+    // 日期列表
+    ctx.server.get(BASE_PATH, async koa => {
+      if (!this.authorize(koa)) return
+      const counts = new Map<string, number>()
+      for (const recordId of await this.fileRecordService.listRecordIds()) {
+        const date = parse(recordId).dir
+        counts.set(date, (counts.get(date) ?? 0) + 1)
+      }
+      const items = [...counts].map(([date, count]) => `<li><a href="${this.link(date)}">${date}</a> <span>${count} 条记录</span></li>`)
+      koa.type = 'html'
+      koa.body = renderPage('报告记录', items.length ? `<ul>${items.join('')}</ul>` : '<p>暂无记录</p>')
+    })
+
+    // 某一天的记录列表
+    ctx.server.get(`${BASE_PATH}/:date`, async koa => {
+      if (!this.authorize(koa)) return
+      const { date } = koa.params
+      if (!DATE_DIR_REGEX.test(date)) return koa.throw(404)
+      const rows: string[] = []
+      for (const recordId of await this.fileRecordService.listRecordIds(date, date)) {
+        const record = await this.fileRecordService.loadRecord(recordId)
+        if (!record) continue
+        const name = parse(recordId).base
+        const uploader = this.config.whitelist?.find(item => item.userId === record.uploaderId)?.nickname || record.uploaderName || record.uploaderId
+        rows.push(
+          `<tr><td><a href="${this.link(date, name)}">${escapeHtml(name)}</a></td><td>${escapeHtml(uploader)}</td><td>${record.messages.length}</td><td>${record.status ? RECORD_STATUS_LABELS[record.status] : '--'}</td></tr>`,
+        )
+      }
+      koa.type = 'html'
+      koa.body = renderPage(
+        `${date} 的报告记录`,
+        `<p><a href="${this.link()}">返回日期列表</a></p>` +
+          (rows.length ? `<table><tr><th>文件</th><th>上传者</th><th>消息</th><th>处理结果</th></tr>${rows.join('')}</table>` : '<p>暂无记录</p>'),
+      )
+    })
+
+    // 单个记录的对话内容
+    ctx.server.get(`${BASE_PATH}/:date/:name`, async koa => {
+      if (!this.authorize(koa)) return
+      const recordId = this.getRecordId(koa.params.date, koa.params.name)
+      const page = recordId
+        ? await this.fileRecordService.renderRecordPage(recordId, [
+            { title: '返回记录列表', href: this.link(koa.params.date) },
+            { title: '下载报告文件', href: this.link(koa.params.date, koa.params.name, 'file') },
+          ])
+        : null
+      if (!page) return koa.throw(404)
+      koa.type = 'html'
+      koa.body = page
+    })
+
+    // 下载用户上传的报告文件
+    ctx.server.get(`${BASE_PATH}/:date/:name/file`, async koa => {
+      if (!this.authorize(koa)) return
+      const recordId = this.getRecordId(koa.params.date, koa.params.name)
+      // 只提供记录对应的报告文件，不提供记录文件本身或对话中的图片
+      const exists = recordId && (await this.fileRecordService.loadRecord(recordId))
+      const data = exists ? await this.fileRecordService.readLogFile(koa.params.date, koa.params.name) : null
+      if (!data) return koa.throw(404)
+      koa.attachment(koa.params.name)
+      koa.body = data
+    })
+
+    ctx.logger.info(`报告网页查看已启用：${ctx.server.selfUrl}${BASE_PATH}?token=<访问令牌>`)
+  }
+
+  /**
+   * @description 校验请求中的访问令牌，可通过 `token` 查询参数或 `Authorization: Bearer` 请求头提供。校验失败时直接返回 401。
+   */
+  private authorize(koa: KoaContext): boolean {
+    const header = koa.get('Authorization')?.replace(/^Bearer\s+/i, '')
+    const token = String(koa.query.token || header || '')
+    const digest = (value: string) => createHash('sha256').update(value).digest()
+    if (token && timingSafeEqual(digest(token), digest(this.config.webViewerToken))) return true
+    koa.status = 401
+    koa.body = '未授权的访问'
+    return false
+  }
+
+  /**
+   * @description 由路由参数得到记录 ID，参数不合法时返回 null，防止访问日志目录以外的文件。
+   */
+  private getRecordId(date: string, name: string): string | null {
+    if (!DATE_DIR_REGEX.test(date) || !name || name === '.' || name === '..' || /[\\/]/.test(name)) return null
+    return `${date}/${name}`
+  }
+
+  /**
+   * @description 生成带有访问令牌的页面链接。
+   */
+  private link(...segments: string[]): string {
+    const path = [BASE_PATH, ...segments.map(encodeURIComponent)].join('/')
+    return `${path}?token=${encodeURIComponent(this.config.webViewerToken)}`
+  }
+}
+
+const renderPage = (title: string, body: string): string => `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: sans-serif; max-width: 860px; margin: 24px auto; padding: 0 16px; color: #333; }
+a { color: #4a6ee0; text-decoration: none; }
+li span { color: #888; font-size: 12px; margin-left: 8px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border-bottom: 1px solid #ddd; padding: 6px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(title)}</h2>
+${body}
+</body>
+</html>
+`
@@ -1,6 +1,12 @@
+import { createHash } from 'crypto'
 import { promises as fs } from 'fs'
-import { parse } from 'path'
-import { h, Session, Context } from 'koishi'
+import { join, parse } from 'path'
+import { pathToFileURL } from 'url'
+import { promisify } from 'util'
+import { createContext, Script } from 'vm'
+import { constants, createGunzip, createInflateRaw, deflateRaw, inflateRaw } from 'zlib'
+import { h, Session, Context, Bot } from 'koishi'
+import yaml from 'js-yaml'
 import { Config } from './index'
 
 /**
@@ -82,6 +88,23 @@ export async function deleteFile(filePath: string): Promise<void> {
   }
 }
 
+/**
+ * @function hashBuffer
+ * @description 计算数据的 SHA-256 摘要。
+ * @param data 要计算摘要的数据。
+ * @returns 十六进制格式的摘要字符串。
+ */
+export const hashBuffer = (data: Uint8Array): string => createHash('sha256').update(data).digest('hex')
+
+/**
+ * @function escapeHtml
+ * @description 转义文本中的 HTML 特殊字符。
+ * @param text 要转义的文本。
+ * @returns 可安全插入 HTML 的文本。
+ */
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char])
+
 /**
  * @function downloadFile
  * @description 从给定的 URL 下载文件并保存到本地指定路径。
@@ -100,6 +123,416 @@ export async function downloadFile(ctx: Context, url: string, filePath: string):
   }
 }
 
+/**
+ * @function fetchLimited
+ * @description 下载内容到内存，并限制大小：先检查响应头中的 `content-length`，下载过程中超出上限时立即中止。
+ * @param ctx Koishi 上下文，用于发起 HTTP 请求。
+ * @param url 下载地址。
+ * @param maxSize 允许的最大字节数。
+ * @param timeout 超时时间（毫秒）。
+ * @returns 下载的内容，超出上限时返回 null。
+ */
+export async function fetchLimited(ctx: Context, url: string, maxSize: number, timeout: number): Promise<Buffer | null> {
+  const response = await ctx.http(url, { method: 'GET', responseType: 'stream', timeout })
+  const reader = response.data.getReader()
+  if (Number(response.headers.get('content-length')) > maxSize) {
+    await reader.cancel()
+    return null
+  }
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > maxSize) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * @function extractFileInfo
+ * @description 从消息元素或 OneBot API 中提取文件详细信息。
+ * @param ctx Koishi 上下文，用于记录日志。
+ * @param element 消息中的文件元素。
+ * @param session 当前会话。
+ * @returns 文件名、大小与下载地址，信息不全时返回 null。
+ */
+export async function extractFileInfo(ctx: Context, element: any, session: Session): Promise<{ name: string; size: number; url: string } | null> {
+  // 优先尝试使用 onebot.getMsg API，因为它通常能提供更可靠的文件信息
+  try {
+    const msg = await session.onebot.getMsg(session.messageId)
+    const fileData = Array.isArray(msg.message) ? msg.message.find(el => el.type === 'file')?.data : null
+    if (fileData?.file && fileData.file_size && fileData.url) {
+      return { name: fileData.file, size: parseInt(fileData.file_size, 10), url: fileData.url }
+    }
+  } catch (error) {
+    ctx.logger.warn('调用 onebot.getMsg API 失败，将回退到使用消息元素属性:', error)
+  }
+  // API 调用失败或信息不全时，回退到使用消息元素中的 attrs
+  const { file, 'file-size': fileSize, src } = element.attrs
+  if (file && fileSize && src) {
+    return { name: file, size: parseInt(fileSize, 10), url: src }
+  }
+  return null
+}
+
+// 压缩包内的单个文件
+export interface ZipEntry {
+  name: string // 包内路径
+  data: Buffer // 解压后的内容
+}
+
+// 中央目录中记录的文件信息
+interface ZipEntryHeader {
+  name: string
+  method: number // 压缩方式，0 为存储，8 为 Deflate
+  compressedSize: number
+  localOffset: number // 本地文件头的偏移量
+}
+
+// 本地文件头与中央目录项的固定长度
+const ZIP_LOCAL_HEADER_SIZE = 30
+const ZIP_CENTRAL_HEADER_SIZE = 46
+// 中央目录结束标记的最大长度（含最长注释）
+const ZIP_EOCD_MAX_SIZE = 65557
+// 解压后内容的最大字节数，防止用户上传的压缩炸弹耗尽内存
+export const MAX_INFLATE_SIZE = 64 * 1024 * 1024
+
+/**
+ * @description 在压缩包末尾的数据中查找中央目录结束标记 (EOCD)，返回其偏移量，未找到时返回 -1。
+ */
+function findEndOfCentralDirectory(tail: Buffer): number {
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) return i
+  }
+  return -1
+}
+
+/**
+ * @description 解析中央目录，返回其中所有文件（不含目录项）的信息。
+ */
+function parseCentralDirectory(directory: Buffer, total: number): ZipEntryHeader[] {
+  const headers: ZipEntryHeader[] = []
+  let offset = 0
+  for (let i = 0; i < total && offset + ZIP_CENTRAL_HEADER_SIZE <= directory.length; i++) {
+    if (directory.readUInt32LE(offset) !== 0x02014b50) break
+    const nameLength = directory.readUInt16LE(offset + 28)
+    const name = decodeText(directory.subarray(offset + ZIP_CENTRAL_HEADER_SIZE, offset + ZIP_CENTRAL_HEADER_SIZE + nameLength))
+    if (!name.endsWith('/')) {
+      headers.push({
+        name,
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localOffset: directory.readUInt32LE(offset + 42),
+      })
+    }
+    offset += ZIP_CENTRAL_HEADER_SIZE + nameLength + directory.readUInt16LE(offset + 30) + directory.readUInt16LE(offset + 32)
+  }
+  return headers
+}
+
+const inflateRawAsync = promisify(inflateRaw)
+
+/**
+ * @function inflateHead
+ * @description 只解压数据开头的一部分，得到 maxSize 字节后立即停止，允许数据不完整。用于读取报告开头的内容，压缩比再高也不会解压出更多数据。
+ * @param data 压缩的数据。
+ * @param format 压缩格式，gzip 或不含头部的 Deflate 数据。
+ * @param maxSize 最多解压的字节数。
+ * @returns 解压出的开头内容，不超过 maxSize 字节。
+ */
+export function inflateHead(data: Buffer, format: 'gzip' | 'deflate-raw', maxSize: number): Promise<Buffer> {
+  const options = { finishFlush: constants.Z_SYNC_FLUSH }
+  const stream = format === 'gzip' ? createGunzip(options) : createInflateRaw(options)
+  const chunks: Buffer[] = []
+  let size = 0
+  return new Promise((resolve, reject) => {
+    const finish = () => resolve(Buffer.concat(chunks).subarray(0, maxSize))
+    stream.on('data', (chunk: Buffer) => {
+      chunks.push(chunk)
+      size += chunk.length
+      if (size < maxSize) return
+      stream.destroy()
+      finish()
+    })
+    stream.on('end', finish)
+    stream.on('error', reject)
+    stream.end(data)
+  })
+}
+
+/**
+ * @description 按压缩方式解压单个文件的数据，不支持的压缩方式或解压后超过 maxSize 时返回 null；head 为 true 时只解压开头的 maxSize 字节。解压在线程池中进行，不阻塞事件循环。
+ */
+async function inflateEntry(method: number, raw: Buffer, maxSize: number, head = false): Promise<Buffer | null> {
+  if (head && maxSize > 0) {
+    if (method === 0) return Buffer.from(raw.subarray(0, maxSize))
+    if (method === 8) return inflateHead(raw, 'deflate-raw', maxSize)
+  }
+  if (method === 0) return raw.length <= maxSize ? Buffer.from(raw) : null
+  if (method !== 8 || maxSize <= 0) return null
+  try {
+    return await inflateRawAsync(raw, { maxOutputLength: maxSize })
+  } catch (error) {
+    if (error.code === 'ERR_BUFFER_TOO_LARGE') return null
+    throw error
+  }
+}
+
+/**
+ * @function readZipEntries
+ * @description 解析 ZIP 压缩包的中央目录并解压其中的文件，仅支持存储与 Deflate 两种压缩方式。
+ * @param buffer 压缩包的完整内容。
+ * @param filter 可选，根据包内路径决定是否解压该文件。
+ * @param options.maxSize 可选，所有文件解压后的总字节数上限，超出上限的文件会被跳过。
+ * @param options.headSize 可选，只解压每个文件开头的字节数，用于读取文件开头的内容。
+ * @returns 解压后的文件列表，无法识别的压缩包返回空数组。
+ */
+export async function readZipEntries(
+  buffer: Buffer,
+  filter?: (name: string) => boolean,
+  { maxSize = MAX_INFLATE_SIZE, headSize }: { maxSize?: number; headSize?: number } = {},
+): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, buffer.length - ZIP_EOCD_MAX_SIZE)
+  const eocd = findEndOfCentralDirectory(buffer.subarray(tailStart))
+  if (eocd === -1) return []
+
+  const eocdOffset = tailStart + eocd
+  const directoryOffset = buffer.readUInt32LE(eocdOffset + 16)
+  const directorySize = buffer.readUInt32LE(eocdOffset + 12)
+  // 中央目录位于结束标记之前，超出该范围说明压缩包已损坏
+  if (directoryOffset + directorySize > eocdOffset) return []
+  const directory = buffer.subarray(directoryOffset, directoryOffset + directorySize)
+  const entries: ZipEntry[] = []
+  let remaining = maxSize
+  for (const header of parseCentralDirectory(directory, buffer.readUInt16LE(eocdOffset + 10))) {
+    if (filter && !filter(header.name)) continue
+    try {
+      const { localOffset } = header
+      const dataStart = localOffset + ZIP_LOCAL_HEADER_SIZE + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28)
+      if (dataStart + header.compressedSize > directoryOffset) continue
+      const raw = buffer.subarray(dataStart, dataStart + header.compressedSize)
+      const data = headSize ? await inflateEntry(header.method, raw, Math.min(headSize, remaining), true) : await inflateEntry(header.method, raw, remaining)
+      if (!data) continue
+      remaining -= data.length
+      entries.push({ name: header.name, data })
+    } catch {
+      // 单个文件损坏时忽略，继续解析其余文件
+    }
+  }
+  return entries
+}
+
+/**
+ * @function readZipFile
+ * @description 按需读取磁盘上的 ZIP 压缩包，只读取中央目录和被选中的文件，避免将整个压缩包载入内存。压缩前或解压后超过 MAX_INFLATE_SIZE 的文件会被跳过。
+ * @param filePath 压缩包的完整路径。
+ * @param filter 可选，根据包内路径决定是否解压该文件。
+ * @returns 解压后的文件列表，文件不存在或无法识别时返回空数组。
+ */
+export async function readZipFile(filePath: string, filter?: (name: string) => boolean): Promise<ZipEntry[]> {
+  let handle: fs.FileHandle
+  try {
+    handle = await fs.open(filePath, 'r')
+  } catch {
+    return []
+  }
+  try {
+    const { size } = await handle.stat()
+    // 偏移量与长度均读取自压缩包本身，超出文件大小时视为损坏，避免按伪造的长度分配内存
+    const readAt = async (position: number, length: number): Promise<Buffer> => {
+      if (position < 0 || length < 0 || position + length > size) throw new RangeError(`读取范围超出压缩包: ${position} + ${length} > ${size}`)
+      const buffer = Buffer.alloc(length)
+      const { bytesRead } = await handle.read(buffer, 0, length, position)
+      return buffer.subarray(0, bytesRead)
+    }
+
+    let tail: Buffer, eocd: number, directory: Buffer
+    try {
+      const tailStart = Math.max(0, size - ZIP_EOCD_MAX_SIZE)
+      tail = await readAt(tailStart, size - tailStart)
+      eocd = findEndOfCentralDirectory(tail)
+      if (eocd === -1) return []
+      directory = await readAt(tail.readUInt32LE(eocd + 16), tail.readUInt32LE(eocd + 12))
+    } catch {
+      return []
+    }
+    const entries: ZipEntry[] = []
+    for (const header of parseCentralDirectory(directory, tail.readUInt16LE(eocd + 10))) {
+      if (filter && !filter(header.name)) continue
+      if (header.compressedSize > MAX_INFLATE_SIZE) continue
+      try {
+        const localHeader = await readAt(header.localOffset, ZIP_LOCAL_HEADER_SIZE)
+        const dataStart = header.localOffset + ZIP_LOCAL_HEADER_SIZE + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28)
+        const data = await inflateEntry(header.method, await readAt(dataStart, header.compressedSize), MAX_INFLATE_SIZE)
+        if (data) entries.push({ name: header.name, data })
+      } catch {
+        // 单个文件损坏时忽略，继续解析其余文件
+      }
+    }
+    return entries
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * @function listZipFile
+ * @description 列出磁盘上 ZIP 压缩包内的所有文件路径，不解压任何内容。
+ * @param filePath 压缩包的完整路径。
+ * @returns 包内文件路径列表。
+ */
+export async function listZipFile(filePath: string): Promise<string[]> {
+  const names: string[] = []
+  await readZipFile(filePath, name => {
+    names.push(name)
+    return false
+  })
+  return names
+}
+
+// CRC-32 查找表，用于生成 ZIP 文件校验值
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+// 计算 CRC-32 时每次处理的字节数，每块之间让出事件循环
+const CRC32_CHUNK_SIZE = 1024 * 1024
+
+const deflateRawAsync = promisify(deflateRaw)
+
+/**
+ * @description 分块计算 CRC-32 校验值，避免较大的文件长时间阻塞事件循环。
+ */
+async function crc32(data: Buffer): Promise<number> {
+  let crc = 0xffffffff
+  for (let start = 0; start < data.length; start += CRC32_CHUNK_SIZE) {
+    if (start) await new Promise(resolve => setImmediate(resolve))
+    const end = Math.min(start + CRC32_CHUNK_SIZE, data.length)
+    for (let i = start; i < end; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// 压缩包内的文件，name 为包内路径，path 为本地路径，data 为文件内容（提供 data 时不读取 path）
+type ZipSource = { name: string; path?: string; data?: Buffer }
+
+/**
+ * @description 逐个压缩文件并依次生成 ZIP 压缩包的各段内容。压缩在线程池中进行，不阻塞事件循环。
+ */
+async function* generateZip(files: ZipSource[]): AsyncGenerator<Buffer> {
+  const centralHeaders: Buffer[] = []
+  let offset = 0
+  // 以 DOS 格式记录的修改时间与日期
+  const now = new Date()
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1)
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  for (const file of files) {
+    const data = file.data ?? (await fs.readFile(file.path))
+    const [deflated, checksum] = await Promise.all([deflateRawAsync(data), crc32(data)])
+    // 压缩后反而更大的文件（如图片、压缩包）直接存储
+    const [method, body] = deflated.length < data.length ? [8, deflated] : [0, data]
+    const name = Buffer.from(file.name, 'utf-8')
+
+    const local = Buffer.alloc(ZIP_LOCAL_HEADER_SIZE)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // 解压所需版本
+    local.writeUInt16LE(0x0800, 6) // 文件名使用 UTF-8 编码
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(dosTime, 10)
+    local.writeUInt16LE(dosDate, 12)
+    local.writeUInt32LE(checksum, 14)
+    local.writeUInt32LE(body.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    yield Buffer.concat([local, name])
+    yield body
+
+    const central = Buffer.alloc(ZIP_CENTRAL_HEADER_SIZE)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // 创建版本
+    central.writeUInt16LE(20, 6) // 解压所需版本
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(dosTime, 12)
+    central.writeUInt16LE(dosDate, 14)
+    central.writeUInt32LE(checksum, 16)
+    central.writeUInt32LE(body.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centralHeaders.push(central, name)
+    offset += ZIP_LOCAL_HEADER_SIZE + name.length + body.length
+  }
+
+  const directory = Buffer.concat(centralHeaders)
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(files.length, 8)
+  eocd.writeUInt16LE(files.length, 10)
+  eocd.writeUInt32LE(directory.length, 12)
+  eocd.writeUInt32LE(offset, 16)
+  yield Buffer.concat([directory, eocd])
+}
+
+/**
+ * @function writeZipFile
+ * @description 将多个文件逐个压缩写入一个 ZIP 压缩包。先写入临时文件，完成后再替换目标文件。
+ * @param filePath 压缩包的完整路径。
+ * @param files 要写入的文件列表，name 为包内路径，path 为本地路径，data 为文件内容（提供 data 时不读取 path）。
+ */
+export async function writeZipFile(filePath: string, files: ZipSource[]): Promise<void> {
+  await ensureDirectoryExists(filePath)
+  const tempPath = `${filePath}.tmp`
+  const handle = await fs.open(tempPath, 'w')
+  try {
+    for await (const chunk of generateZip(files)) await handle.write(chunk)
+    await handle.close()
+    await fs.rename(tempPath, filePath)
+  } catch (error) {
+    await handle.close().catch(() => {})
+    await deleteFile(tempPath)
+    throw error
+  }
+}
+
+/**
+ * @function createZipBuffer
+ * @description 将多个文件压缩为内存中的 ZIP 压缩包，格式与 writeZipFile 相同，用于重新打包嵌套的压缩包。
+ * @param files 要写入的文件列表。
+ * @returns 压缩包的完整内容。
+ */
+export async function createZipBuffer(files: ZipSource[]): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of generateZip(files)) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+/**
+ * @function decodeText
+ * @description 将字节解码为字符串。优先按 UTF-8 解码，失败时按 GB18030 解码（常见于中文 Windows 生成的日志）。
+ * @param buffer 要解码的字节。
+ * @returns 解码后的字符串。
+ */
+export function decodeText(buffer: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    try {
+      return new TextDecoder('gb18030').decode(buffer)
+    } catch {
+      return Buffer.from(buffer).toString('latin1')
+    }
+  }
+}
+
 /**
  * @function buildReplyElements
  * @description 根据配置构建统一格式的回复消息元素数组。
@@ -139,66 +572,271 @@ interface KeywordConfig {
   text: string
   reply: string
   regex?: string
+  examples?: string[]
+  groups?: string[]
+  launchers?: string[]
+  disabled?: string
+}
+
+// 匹配时使用的关键词字段，转发关键词没有回复内容与示例问法，同样适用
+type MatchableKeyword = Pick<KeywordConfig, 'text' | 'regex' | 'examples' | 'disabled'>
+
+// 正则匹配失败的原因：正则表达式无效、匹配超时
+export type RegexFailure = 'invalid' | 'timeout'
+
+// 正则表达式的编译缓存，key: 正则表达式字符串，无效的正则表达式缓存为 null
+const regexCache = new Map<string, RegExp | null>()
+// 编译缓存的最大数量，超出时清空
+const MAX_REGEX_CACHE_SIZE = 500
+// 单次正则匹配的超时时间（毫秒）
+const REGEX_MATCH_TIMEOUT = 50
+// 参与正则匹配的最大文本长度，超出部分不参与匹配
+const MAX_REGEX_INPUT_LENGTH = 4000
+// 执行正则匹配的沙箱。在沙箱中执行的匹配可以在超时时被中断，避免灾难性回溯卡住整个机器人
+const regexSandbox = createContext({})
+const regexScript = new Script('regex.test(input)')
+
+/**
+ * @function compileRegex
+ * @description 编译关键词使用的正则表达式（不区分大小写），编译结果会被缓存。
+ * @param pattern 正则表达式字符串。
+ * @returns 编译后的正则表达式，无效时返回 null。
+ */
+export function compileRegex(pattern: string): RegExp | null {
+  if (regexCache.has(pattern)) return regexCache.get(pattern)
+  if (regexCache.size >= MAX_REGEX_CACHE_SIZE) regexCache.clear()
+  let regex: RegExp | null = null
+  try {
+    regex = new RegExp(pattern, 'i')
+  } catch {}
+  regexCache.set(pattern, regex)
+  return regex
+}
+
+/**
+ * @function testRegex
+ * @description 在超时限制下执行正则匹配，过长的文本只匹配开头部分。
+ * @param pattern 正则表达式字符串。
+ * @param content 要匹配的文本。
+ * @returns 是否匹配，正则表达式无效或匹配超时时返回失败原因。
+ */
+export function testRegex(pattern: string, content: string): boolean | RegexFailure {
+  const regex = compileRegex(pattern)
+  if (!regex) return 'invalid'
+  regexSandbox.regex = regex
+  regexSandbox.input = content.slice(0, MAX_REGEX_INPUT_LENGTH)
+  try {
+    return regexScript.runInContext(regexSandbox, { timeout: REGEX_MATCH_TIMEOUT })
+  } catch (error) {
+    if (error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') return 'timeout'
+    throw error
+  }
+}
+
+/**
+ * @function validateRegex
+ * @description 保存关键词的正则表达式前检查其语法，并用几段容易引起灾难性回溯的文本试运行。
+ * @param pattern 正则表达式字符串。
+ * @returns 正则表达式有问题时返回错误提示，否则返回 null。
+ */
+export function validateRegex(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'i')
+  } catch (error) {
+    return `正则表达式无效：${error.message}`
+  }
+  // 由常见字符或正则中的字面字符重复组成、且结尾无法匹配的文本，长度不超过参与匹配的最大长度
+  const literals = [...new Set(pattern.replace(/\\.|[\[\](){}?*+|^$.]/g, ''))].slice(0, 8)
+  const probes = ['a', '1', ' ', 'aB1 _-./\\', literals.join(''), ...literals]
+    .filter(Boolean)
+    .map(chars => `${chars.repeat(Math.floor((MAX_REGEX_INPUT_LENGTH - 2) / chars.length))}\n!`)
+  if (probes.some(probe => testRegex(pattern, probe) === 'timeout')) return '正则表达式存在灾难性回溯，匹配测试文本超时，请简化嵌套的量词'
+  return null
+}
+
+/**
+ * @function notifyAdmins
+ * @description 发送需要管理员处理的通知：发送到配置的规则通知群组，未配置时私聊白名单用户。
+ * @param bot 用于发送消息的机器人。
+ * @param config 插件配置。
+ * @param message 通知内容。
+ */
+export async function notifyAdmins(bot: Bot, config: Config, message: string): Promise<void> {
+  const targets = config.ruleAlertTarget ? [config.ruleAlertTarget] : (config.whitelist ?? []).map(item => item.userId)
+  for (const target of targets) {
+    try {
+      if (config.ruleAlertTarget) await bot.sendMessage(target, message)
+      else await bot.sendPrivateMessage(target, message)
+    } catch (error) {
+      bot.ctx.logger.warn(`发送管理员通知到 ${target} 失败:`, error)
+    }
+  }
+}
+
+// 模糊匹配的默认置信度阈值
+export const DEFAULT_FUZZY_THRESHOLD = 0.6
+
+// 关键词的匹配方式：正则表达式、示例问法模糊匹配、文本包含
+export type KeywordMatchType = 'regex' | 'fuzzy' | 'substring'
+
+/**
+ * @function matchKeyword
+ * @description 检查文本是否匹配单个关键词。配置了正则表达式时只使用正则，其次是示例问法，最后是文本包含。已停用的关键词不匹配。
+ * @param content 要检查的文本内容。
+ * @param kw 关键词配置。
+ * @param fuzzyThreshold 可选，模糊匹配的置信度阈值。
+ * @param onRegexError 可选，正则表达式无效或匹配超时时调用，此时视为不匹配。
+ * @returns 匹配方式与模糊匹配的相似度，不匹配时返回 null。
+ */
+export function matchKeyword<T extends MatchableKeyword>(
+  content: string,
+  kw: T,
+  fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
+  onRegexError?: (kw: T, reason: RegexFailure) => void,
+): { type: KeywordMatchType; score?: number } | null {
+  if (kw.disabled) return null
+  // 优先匹配正则表达式
+  if (kw.regex) {
+    const result = testRegex(kw.regex, content)
+    if (typeof result === 'string') onRegexError?.(kw, result)
+    return result === true ? { type: 'regex' } : null
+  }
+  // 配置了示例问法时使用模糊匹配
+  if (kw.examples?.length) {
+    const score = getFuzzyScore(content, kw.examples)
+    return score >= fuzzyThreshold ? { type: 'fuzzy', score } : null
+  }
+  // 其次匹配纯文本包含
+  return content.includes(kw.text) ? { type: 'substring' } : null
 }
 
 /**
  * @function checkKeywords
- * @description 检查消息内容是否匹配关键词列表，并在匹配成功时发送回复。
+ * @description 检查消息内容是否匹配关键词列表，只负责匹配，不发送回复。
  * @param content 要检查的文本内容（可以是消息文本或OCR结果）。
  * @param keywords 关键词配置数组。
- * @param session 当前会话。
- * @param config 插件配置。
- * @returns 如果成功匹配并发送了回复，返回 true，否则返回 false。
- */
-export async function checkKeywords(content: string, keywords: KeywordConfig[], session: Session, config: Config): Promise<boolean> {
-  for (const kw of keywords) {
-    let matched = false
-    // 优先匹配正则表达式
-    if (kw.regex) {
-      if (new RegExp(kw.regex, 'i').test(content)) {
-        matched = true
-      }
-    } else {
-      // 其次匹配纯文本包含
-      if (content.includes(kw.text)) {
-        matched = true
-      }
-    }
+ * @param fuzzyThreshold 可选，模糊匹配的置信度阈值。
+ * @param onRegexError 可选，关键词的正则表达式无效或匹配超时时调用。
+ * @returns 按列表顺序第一个匹配的关键词，没有匹配时返回 null。
+ */
+export function checkKeywords<T extends MatchableKeyword>(
+  content: string,
+  keywords: T[],
+  fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD,
+  onRegexError?: (kw: T, reason: RegexFailure) => void,
+): T | null {
+  // 匹配后立即返回，不再检查其他关键词
+  return keywords.find(kw => matchKeyword(content, kw, fuzzyThreshold, onRegexError)) ?? null
+}
 
-    if (matched) {
-      const replyContent = h.parse(kw.reply)
-      const elements = buildReplyElements(session, '', undefined, config)
-      elements.pop() // 移除 buildReplyElements 产生的空文本占位符
-      elements.push(...replyContent) // 添加真正的回复内容
-      await session.send(elements)
-      return true // 匹配并发送后立即返回，不再检查其他关键词
-    }
+/**
+ * @function describeMatches
+ * @description 列出文本匹配的所有关键词及匹配方式，用于调试规则，不发送任何消息。
+ * @param content 要检查的文本内容。
+ * @param keywords 关键词配置数组，顺序即匹配的优先级。
+ * @param options.fuzzyThreshold 可选，模糊匹配的置信度阈值。
+ * @param options.note 可选，为关键词附加说明，返回值不为空时该关键词不参与优先级比较（例如不在本群生效）。
+ * @returns 每个匹配的关键词一行，实际生效的关键词以 ★ 标出，没有匹配时返回空数组。
+ */
+export function describeMatches<T extends MatchableKeyword>(
+  content: string,
+  keywords: T[],
+  options: { fuzzyThreshold?: number; note?: (kw: T) => string | undefined } = {},
+): string[] {
+  const labels: Record<KeywordMatchType, string> = { regex: '正则', fuzzy: '模糊匹配', substring: '文本包含' }
+  const lines: string[] = []
+  let winnerFound = false
+  for (const [index, kw] of keywords.entries()) {
+    if (kw.disabled) continue
+    const match = matchKeyword(content, kw, options.fuzzyThreshold, (_, reason) => {
+      lines.push(`✘ #${index + 1} ${kw.text}（${reason === 'timeout' ? '正则匹配超时' : '正则表达式无效'}）`)
+    })
+    if (!match) continue
+    const note = options.note?.(kw)
+    const winner = !note && !winnerFound
+    if (winner) winnerFound = true
+    const detail = match.type === 'regex' ? ` /${kw.regex}/` : match.type === 'fuzzy' ? ` ${match.score.toFixed(2)}` : ''
+    lines.push(`${winner ? '★' : '·'} #${index + 1} ${kw.text}（${labels[match.type]}${detail}）${note ?? ''}`)
   }
-  return false
+  return lines
 }
 
 /**
- * @function handleOCR
- * @description 调用机器人的 OCR 功能识别图片中的文字。
- * @param imageElement 消息中的图片元素。
- * @param session 当前会话。
- * @returns 识别出的文本字符串，如果失败或无结果则返回 null。
+ * @function getFuzzyScore
+ * @description 计算文本与示例问法的相似度，取与各示例相似度的最大值。
+ * 相似度基于字符二元组：Dice 系数衡量整体相似，覆盖率衡量示例在文本中出现的比例，两者取平均，使较长的提问也能匹配较短的示例。
+ * @param text 要检查的文本。
+ * @param examples 示例问法。
+ * @returns 0 到 1 之间的相似度。
  */
-export async function handleOCR(imageElement: any, session: Session): Promise<string | null> {
-  try {
-    // 检查机器人是否支持 OCR 功能
-    if (typeof session.bot.internal?.ocrImage !== 'function') return null
+export function getFuzzyScore(text: string, examples: string[]): number {
+  const source = getBigrams(text)
+  if (!source.size) return 0
+  let best = 0
+  for (const example of examples) {
+    const target = getBigrams(example)
+    if (!target.size) continue
+    let overlap = 0
+    for (const [gram, count] of target) overlap += Math.min(count, source.get(gram) ?? 0)
+    const total = (map: Map<string, number>) => [...map.values()].reduce((sum, count) => sum + count, 0)
+    const dice = (2 * overlap) / (total(source) + total(target))
+    const coverage = overlap / total(target)
+    best = Math.max(best, (dice + coverage) / 2)
+  }
+  return best
+}
+
+// 将文本规范化（小写，仅保留文字与数字）后拆分为字符二元组及其出现次数，单个字符的文本视为一个二元组
+const getBigrams = (text: string): Map<string, number> => {
+  const chars = [...(text?.toLowerCase().match(/[\p{L}\p{N}]/gu) ?? [])]
+  const grams = new Map<string, number>()
+  if (chars.length === 1) grams.set(chars[0], 1)
+  for (let i = 0; i < chars.length - 1; i++) {
+    const gram = chars[i] + chars[i + 1]
+    grams.set(gram, (grams.get(gram) ?? 0) + 1)
+  }
+  return grams
+}
+
+// 回复模板中的变量，格式为 `{变量名}` 或 `{变量名|默认值}`，变量名为数字时表示按位置填入的参数；`{{` 与 `}}` 表示字面的花括号
+const TEMPLATE_VARIABLE_REGEX = /\{\{|\}\}|\{(\w+)(?:\|([^{}]*))?\}/g
+
+// 回复模板支持的命名变量，`placeholder` 为旧版本的占位符，表示全部参数
+export const TEMPLATE_VARIABLES = ['user', 'userName', 'group', 'groupName', 'date', 'target', 'placeholder']
+
+/**
+ * @function renderTemplate
+ * @description 替换回复模板中的变量。变量没有值时使用默认值，没有默认值时替换为空；不支持的变量原样保留，`{{` 与 `}}` 替换为单个花括号。
+ * @param template 回复模板（消息元素字符串）。
+ * @param variables 变量值，为消息元素字符串。
+ * @returns 替换后的回复内容。
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(TEMPLATE_VARIABLE_REGEX, (match, name?: string, fallback?: string) => {
+    if (!name) return match[0]
+    if (!/^\d+$/.test(name) && !TEMPLATE_VARIABLES.includes(name)) return match
+    return variables[name] || fallback || ''
+  })
+}
 
-    const ocrResult = await session.bot.internal.ocrImage(imageElement.attrs.src)
-    if (Array.isArray(ocrResult) && ocrResult.length > 0) {
-      // 将所有识别结果的文本拼接起来
-      return ocrResult.map(item => item.text).filter(text => text?.trim()).join('\n')
+/**
+ * @function inspectTemplate
+ * @description 检查回复模板中使用的变量。
+ * @param template 回复模板。
+ * @returns 不支持的变量名，以及没有默认值的位置参数（自动回复时没有参数，这些变量会被替换为空）。
+ */
+export function inspectTemplate(template: string): { unknown: string[]; positional: string[] } {
+  const unknown = new Set<string>()
+  const positional = new Set<string>()
+  for (const [, name, fallback] of template.matchAll(TEMPLATE_VARIABLE_REGEX)) {
+    if (!name) continue
+    if (/^\d+$/.test(name)) {
+      if (fallback === undefined) positional.add(name)
+    } else if (!TEMPLATE_VARIABLES.includes(name)) {
+      unknown.add(name)
     }
-    return null
-  } catch (error) {
-    session.platform && session.bot.ctx.logger.warn(`OCR 功能调用失败: ${error}`)
-    return null
   }
+  return { unknown: [...unknown], positional: [...positional] }
 }
 
 /**
@@ -280,3 +918,234 @@ export function parseDurationToSeconds(durationStr: string, defaultUnit: 'm' | '
 
   return totalSeconds
 }
+
+/**
+ * @function parseDateInput
+ * @description 解析日期参数，支持 `YYYY-MM-DD` 格式的日期或 `7d`、`12h` 等相对时长（表示距今多久以前）。
+ * @param input 日期参数。
+ * @returns `YYYY-MM-DD` 格式的日期字符串，无法解析时返回 null。
+ */
+export function parseDateInput(input: string): string | null {
+  if (!input) return null
+  const date = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  if (date) return `${date[1]}-${date[2].padStart(2, '0')}-${date[3].padStart(2, '0')}`
+  if (!/^(\d+\s*[dhms])+$/i.test(input)) return null
+  return new Date(Date.now() - parseDurationToSeconds(input) * 1000).toISOString().slice(0, 10)
+}
+
+/**
+ * @function parseDateRange
+ * @description 解析 `起始~截止` 格式的日期范围，起始与截止日期的格式同 parseDateInput，省略截止日期时截止到今天。
+ * @param input 日期范围参数。
+ * @param fallback 未提供参数时使用的范围。
+ * @returns 起始与截止日期，无法解析时返回错误提示。
+ */
+export function parseDateRange(input: string, fallback = '7d'): { since: string; until: string } | string {
+  const [start, end] = (input || fallback).split('~')
+  const since = parseDateInput(start.trim())
+  const until = end ? parseDateInput(end.trim()) : new Date().toISOString().slice(0, 10)
+  if (!since || !until) return '日期格式无效，请使用 YYYY-MM-DD 或 7d 等格式。'
+  if (since > until) return '起始日期不能晚于截止日期。'
+  return { since, until }
+}
+
+// --- 规则集导入导出 ---
+
+// 规则集文件格式
+export type RuleSetFormat = 'json' | 'yaml'
+
+// 规则集导入模式：merge 合并（同名规则被覆盖，其余规则保留），replace 替换（以导入的规则集为准）
+export type RuleSetImportMode = 'merge' | 'replace'
+
+/**
+ * @description 导入规则集前后的差异，规则按 `text` 对应。
+ */
+export interface RuleSetDiff<T> {
+  added: T[] // 新增的规则
+  changed: { before: T; after: T }[] // 内容有变化的规则
+  removed: T[] // 被删除的规则，只在替换模式下出现
+  result: T[] // 导入后的完整规则集
+}
+
+// 规则集文件的最大字节数
+const MAX_RULE_SET_SIZE = 4 * 1024 * 1024
+// 下载规则集文件的超时时间（毫秒）
+const RULE_SET_DOWNLOAD_TIMEOUT = 30000
+// 等待上传规则文件与确认导入的时间（毫秒）
+const RULE_SET_PROMPT_TIMEOUT = 60000
+// 导入预览中每类差异最多列出的规则数
+const MAX_DIFF_ITEMS = 20
+
+/**
+ * @function sendExportFile
+ * @description 将导出的内容写入文件并发送到当前会话，发送后删除该文件。每次导出使用导出目录中独立的临时目录，同名文件的并发导出不会互相删除。
+ * @param session 当前会话。
+ * @param exportDir 导出目录。
+ * @param fileName 发送的文件名。
+ * @param content 文件内容。
+ */
+export async function sendExportFile(session: Session, exportDir: string, fileName: string, content: string | Buffer): Promise<void> {
+  await fs.mkdir(exportDir, { recursive: true })
+  const tempDir = await fs.mkdtemp(join(exportDir, 'export-'))
+  try {
+    const exportPath = join(tempDir, fileName)
+    await fs.writeFile(exportPath, content)
+    await session.send(h.file(pathToFileURL(exportPath).href, { title: fileName }))
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * @function exportRuleSet
+ * @description 将规则集导出为文件并发送到当前会话。
+ * @param session 当前会话。
+ * @param exportDir 导出目录。
+ * @param baseName 文件名（不含日期与扩展名），例如 `keywords`。
+ * @param rules 规则列表。
+ * @param format 文件格式。
+ */
+export async function exportRuleSet(session: Session, exportDir: string, baseName: string, rules: object[], format: RuleSetFormat): Promise<void> {
+  const content = format === 'yaml' ? yaml.dump(rules, { lineWidth: -1 }) : JSON.stringify(rules, null, 2)
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}.${format === 'yaml' ? 'yaml' : 'json'}`
+  await sendExportFile(session, exportDir, fileName, content)
+}
+
+/**
+ * @function parseRuleSet
+ * @description 按文件扩展名解析 JSON 或 YAML 格式的规则集。
+ * @param content 文件内容。
+ * @param fileName 文件名。
+ * @returns 规则列表，格式错误时返回错误提示。
+ */
+export function parseRuleSet(content: string, fileName: string): unknown[] | string {
+  try {
+    const data = /\.json$/i.test(fileName) ? JSON.parse(content) : yaml.load(content)
+    return Array.isArray(data) ? data : '规则文件的内容应为规则列表'
+  } catch (error) {
+    return `规则文件解析失败：${error instanceof Error ? error.message : error}`
+  }
+}
+
+/**
+ * @function isSameRule
+ * @description 比较两条规则的内容是否相同，忽略字段顺序的差异。
+ * @param a 规则。
+ * @param b 规则。
+ * @returns 内容是否相同。
+ */
+export function isSameRule(a: object, b: object): boolean {
+  return JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort())
+}
+
+/**
+ * @function applyRuleChanges
+ * @description 依次将规则从 `from` 修改为 `to`，用于撤销或回滚规则的修改。`from` 为空表示新增，`to` 为空表示删除，修改后的规则保留原来的位置。
+ * @param rules 当前的规则列表。
+ * @param changes 要应用的修改。
+ * @returns 修改后的规则列表，规则已在之后被修改或同名规则已存在时返回错误提示。
+ */
+export function applyRuleChanges<T extends { text: string }>(rules: T[], changes: { from?: T; to?: T }[]): T[] | string {
+  const result = [...rules]
+  for (const { from, to } of changes) {
+    let index = result.length
+    if (from) {
+      index = result.findIndex(rule => rule.text === from.text)
+      if (index === -1 || !isSameRule(result[index], from)) return `「${from.text}」已在之后被修改`
+      result.splice(index, 1)
+    }
+    if (to) {
+      if (result.some(rule => rule.text === to.text)) return `「${to.text}」已存在`
+      result.splice(index, 0, JSON.parse(JSON.stringify(to)))
+    }
+  }
+  return result
+}
+
+/**
+ * @function diffRuleSet
+ * @description 计算导入规则集前后的差异。
+ * @param current 当前的规则列表。
+ * @param incoming 导入的规则列表。
+ * @param mode 导入模式。
+ * @returns 差异与导入后的完整规则集。
+ */
+export function diffRuleSet<T extends { text: string }>(current: T[], incoming: T[], mode: RuleSetImportMode): RuleSetDiff<T> {
+  const incomingMap = new Map(incoming.map(rule => [rule.text, rule]))
+  const currentMap = new Map(current.map(rule => [rule.text, rule]))
+  const diff: RuleSetDiff<T> = { added: [], changed: [], removed: [], result: [] }
+
+  for (const rule of incoming) {
+    const before = currentMap.get(rule.text)
+    if (!before) diff.added.push(rule)
+    else if (!isSameRule(before, rule)) diff.changed.push({ before, after: rule })
+  }
+  if (mode === 'replace') {
+    diff.removed = current.filter(rule => !incomingMap.has(rule.text))
+    diff.result = incoming
+  } else {
+    diff.result = [...current.map(rule => incomingMap.get(rule.text) ?? rule), ...diff.added]
+  }
+  return diff
+}
+
+/**
+ * @function formatRuleSetDiff
+ * @description 生成导入规则集的差异预览。
+ * @param diff 规则集差异。
+ * @param label 规则的名称，例如「回复关键词」。
+ * @returns 预览文本。
+ */
+export function formatRuleSetDiff<T extends { text: string }>(diff: RuleSetDiff<T>, label: string): string {
+  const lines = [`导入${label}：新增 ${diff.added.length} 条，修改 ${diff.changed.length} 条，删除 ${diff.removed.length} 条`]
+  const list = (prefix: string, texts: string[]) => {
+    if (!texts.length) return
+    const more = texts.length > MAX_DIFF_ITEMS ? ` 等 ${texts.length} 条` : ''
+    lines.push(`${prefix} ${texts.slice(0, MAX_DIFF_ITEMS).join(' | ')}${more}`)
+  }
+  list('+', diff.added.map(rule => rule.text))
+  list('~', diff.changed.map(({ after }) => after.text))
+  list('-', diff.removed.map(rule => rule.text))
+  return lines.join('\n')
+}
+
+/**
+ * @function receiveRuleSetFile
+ * @description 提示用户上传规则文件，并下载其内容。
+ * @param ctx Koishi 上下文，用于发起 HTTP 请求。
+ * @param session 当前会话。
+ * @returns 文件名与内容，超时或文件无效时返回错误提示。
+ */
+export async function receiveRuleSetFile(ctx: Context, session: Session): Promise<{ name: string; content: string } | string> {
+  await session.send(`请在 ${RULE_SET_PROMPT_TIMEOUT / 1000} 秒内发送 JSON 或 YAML 格式的规则文件`)
+  const fileSession = await session.prompt(next => next, { timeout: RULE_SET_PROMPT_TIMEOUT })
+  const element = fileSession?.elements?.find(el => el.type === 'file')
+  if (!element) return '未收到规则文件，已取消导入'
+
+  const fileInfo = await extractFileInfo(ctx, element, fileSession)
+  if (!fileInfo) return '无法获取规则文件信息'
+  if (!/\.(json|ya?ml)$/i.test(fileInfo.name)) return '规则文件仅支持 .json、.yaml 或 .yml 格式'
+  if (fileInfo.size > MAX_RULE_SET_SIZE) return '规则文件过大'
+  try {
+    // 文件大小由发送方声明，下载时仍需限制实际的大小
+    const data = await fetchLimited(ctx, fileInfo.url, MAX_RULE_SET_SIZE, RULE_SET_DOWNLOAD_TIMEOUT)
+    if (!data) return '规则文件过大'
+    return { name: fileInfo.name, content: decodeText(data) }
+  } catch (error) {
+    ctx.logger.warn(`规则文件下载失败: ${fileInfo.name} (来源: ${fileInfo.url})`, error)
+    return '规则文件下载失败'
+  }
+}
+
+/**
+ * @function confirmAction
+ * @description 发送操作预览，并等待用户回复「确认」。
+ * @param session 当前会话。
+ * @param preview 操作预览。
+ * @returns 用户是否确认。
+ */
+export async function confirmAction(session: Session, preview: string): Promise<boolean> {
+  await session.send(`${preview}\n请在 ${RULE_SET_PROMPT_TIMEOUT / 1000} 秒内回复「确认」以继续`)
+  const answer = await session.prompt(RULE_SET_PROMPT_TIMEOUT)
+  return /^(确认|y|yes)$/i.test(answer?.trim() ?? '')
+}
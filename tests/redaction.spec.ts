@@ -0,0 +1,91 @@
+import { strict as assert } from 'assert'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+import iconv from 'iconv-lite'
+import type { Context } from 'koishi'
+import type { Config } from '../src'
+import { RedactionService } from '../src/services/RedactionService'
+import { createZipBuffer, readZipEntries, readZipFile, writeZipFile } from '../src/utils'
+
+const ctx = { logger: { warn() {} } } as unknown as Context
+
+describe('RedactionService', () => {
+  const service = new RedactionService(ctx, { redactRules: [{ name: '服务器地址', pattern: 'mc\\.example\\.com' }] } as Config)
+  let dir: string
+
+  before(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'mcl-redaction-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('masks tokens, session ids and user names', () => {
+    const counts = {}
+    const text = service.redactText(
+      ['--accessToken abc.def-123 --username Steve', 'Session ID is token:0123456789', 'C:\\Users\\Steve\\AppData\\.minecraft', '/home/steve/.minecraft'].join('\n'),
+      counts,
+    )
+    assert.equal(text, ['--accessToken *** --username Steve', 'Session ID is ***', 'C:\\Users\\***\\AppData\\.minecraft', '/home/***/.minecraft'].join('\n'))
+    assert.deepEqual(counts, { 访问令牌: 1, '会话 ID': 1, 系统用户名: 2 })
+  })
+
+  it('masks IP addresses but keeps loopback addresses and versions', () => {
+    assert.equal(service.redactText('Connecting to 192.168.1.20, 127.0.0.1, forge-1.2.3.4'), 'Connecting to ***, 127.0.0.1, forge-1.2.3.4')
+  })
+
+  it('applies custom rules', () => {
+    assert.equal(service.redactText('joining mc.example.com'), 'joining ***')
+  })
+
+  it('keeps the original text encoding', async () => {
+    const path = join(dir, 'latest.log')
+    const original = iconv.encode('用户 C:\\Users\\张三\\.minecraft', 'gb18030')
+    assert.deepEqual(await service.saveRedactedFile(path, original), { 系统用户名: 1 })
+    assert.equal(iconv.decode(await fs.readFile(path), 'gb18030'), '用户 C:\\Users\\***\\.minecraft')
+  })
+
+  it('redacts text files inside zip archives', async () => {
+    const source = join(dir, 'source.zip')
+    await writeZipFile(source, [
+      { name: 'hmcl.log', data: Buffer.from('--accessToken secret') },
+      { name: 'icon.png', data: Buffer.from([0x89, 0x50]) },
+    ])
+    const path = join(dir, 'report.zip')
+    assert.deepEqual(await service.saveRedactedFile(path, await fs.readFile(source)), { 访问令牌: 1 })
+    const entries = await readZipFile(path)
+    assert.equal(entries.find(entry => entry.name === 'hmcl.log')?.data.toString(), '--accessToken ***')
+    assert.deepEqual([...entries.find(entry => entry.name === 'icon.png').data], [0x89, 0x50])
+  })
+
+  it('redacts nested zip archives', async () => {
+    const inner = await createZipBuffer([{ name: 'logs/latest.log', data: Buffer.from('Session ID is token:secret') }])
+    const outer = await createZipBuffer([{ name: 'minecraft-logs.zip', data: inner }])
+    const path = join(dir, 'nested.zip')
+    assert.deepEqual(await service.saveRedactedFile(path, outer), { '会话 ID': 1 })
+    const [entry] = await readZipFile(path)
+    const [log] = await readZipEntries(entry.data)
+    assert.equal(log.data.toString(), 'Session ID is ***')
+  })
+
+  it('does not save archives containing unsupported archives', async () => {
+    const data = await createZipBuffer([{ name: 'logs.tar.xz', data: Buffer.from([0xfd, 0x37, 0x7a]) }])
+    const path = join(dir, 'xz.zip')
+    assert.equal(await service.saveRedactedFile(path, data), null)
+    await assert.rejects(fs.access(path))
+  })
+
+  it('does not save archives that cannot be read completely', async () => {
+    const source = join(dir, 'unsupported.zip')
+    await writeZipFile(source, [{ name: 'latest.log', data: Buffer.from('--accessToken secret') }])
+    // 将中央目录中的压缩方式改为不支持的 bzip2
+    const data = await fs.readFile(source)
+    data.writeUInt16LE(12, data.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 10)
+    const path = join(dir, 'unsupported-redacted.zip')
+    assert.equal(await service.saveRedactedFile(path, data), null)
+    await assert.rejects(fs.access(path))
+  })
+})
@@ -0,0 +1,127 @@
+import { strict as assert } from 'assert'
+import { describe, it } from 'node:test'
+import { applyRuleChanges, diffRuleSet, getFuzzyScore, inspectTemplate, isSameRule, parseDateInput, parseDateRange, renderTemplate } from '../src/utils'
+
+describe('getFuzzyScore', () => {
+  it('scores identical text as 1', () => {
+    assert.equal(getFuzzyScore('游戏崩溃了怎么办', ['游戏崩溃了怎么办']), 1)
+  })
+
+  it('matches longer questions that contain the example', () => {
+    const score = getFuzzyScore('请问一下我的游戏崩溃了怎么办啊', ['游戏崩溃了怎么办'])
+    assert.ok(score >= 0.6, `score ${score}`)
+  })
+
+  it('ignores case and punctuation', () => {
+    assert.equal(getFuzzyScore('Java 版本？', ['java版本']), 1)
+  })
+
+  it('takes the best example and scores unrelated text low', () => {
+    assert.equal(getFuzzyScore('怎么安装模组', ['下载失败', '怎么安装模组']), 1)
+    assert.ok(getFuzzyScore('今天天气不错', ['怎么安装模组']) < 0.2)
+    assert.equal(getFuzzyScore('', ['怎么安装模组']), 0)
+  })
+})
+
+describe('renderTemplate', () => {
+  it('replaces named and positional variables', () => {
+    assert.equal(renderTemplate('{user} 你好，{1} 在 {group}', { user: 'Steve', group: '123', 1: 'Alex' }), 'Steve 你好，Alex 在 123')
+  })
+
+  it('uses fallbacks for empty variables', () => {
+    assert.equal(renderTemplate('版本：{1|最新版}，目标：{target|所有人}', { target: '' }), '版本：最新版，目标：所有人')
+    assert.equal(renderTemplate('版本：{1}', {}), '版本：')
+  })
+
+  it('keeps unknown variables unchanged', () => {
+    assert.equal(renderTemplate('{"key": 1} {unknown}', {}), '{"key": 1} {unknown}')
+  })
+
+  it('unescapes doubled braces', () => {
+    assert.equal(renderTemplate('{{user}} {{"key": {1}}}', { 1: '1' }), '{user} {"key": 1}')
+  })
+})
+
+describe('inspectTemplate', () => {
+  it('reports unknown variables and positional variables without fallbacks', () => {
+    assert.deepEqual(inspectTemplate('{user} {1} {2|默认} {foo}'), { unknown: ['foo'], positional: ['1'] })
+    assert.deepEqual(inspectTemplate('{{foo}} {{1}}'), { unknown: [], positional: [] })
+  })
+})
+
+describe('parseDateInput', () => {
+  it('pads absolute dates', () => {
+    assert.equal(parseDateInput('2025-8-1'), '2025-08-01')
+  })
+
+  it('resolves relative durations', () => {
+    const expected = new Date(Date.now() - 7 * 86400 * 1000).toISOString().slice(0, 10)
+    assert.equal(parseDateInput('7d'), expected)
+  })
+
+  it('rejects invalid input', () => {
+    assert.equal(parseDateInput('yesterday'), null)
+    assert.equal(parseDateInput(''), null)
+  })
+})
+
+describe('parseDateRange', () => {
+  it('parses explicit ranges', () => {
+    assert.deepEqual(parseDateRange('2025-08-01~2025-08-31'), { since: '2025-08-01', until: '2025-08-31' })
+  })
+
+  it('ends open ranges today', () => {
+    assert.deepEqual(parseDateRange('2025-08-01'), { since: '2025-08-01', until: new Date().toISOString().slice(0, 10) })
+  })
+
+  it('falls back to the default range', () => {
+    const range = parseDateRange('', '30d')
+    assert.equal(typeof range, 'object')
+    assert.equal((range as { since: string }).since, parseDateInput('30d'))
+  })
+
+  it('rejects invalid or reversed ranges', () => {
+    assert.equal(typeof parseDateRange('foo~bar'), 'string')
+    assert.equal(parseDateRange('2025-09-01~2025-08-01'), '起始日期不能晚于截止日期。')
+  })
+})
+
+describe('rule sets', () => {
+  const a = { text: 'a', reply: '1' }
+  const b = { text: 'b', reply: '2' }
+  const c = { text: 'c', reply: '3' }
+
+  it('compares rules regardless of field order', () => {
+    assert.ok(isSameRule({ text: 'a', reply: '1' }, { reply: '1', text: 'a' }))
+    assert.ok(!isSameRule(a, { text: 'a', reply: '2' }))
+  })
+
+  it('merges incoming rules into the current list', () => {
+    const changedB = { text: 'b', reply: 'new' }
+    const diff = diffRuleSet([a, b], [changedB, c], 'merge')
+    assert.deepEqual(diff.added, [c])
+    assert.deepEqual(diff.changed, [{ before: b, after: changedB }])
+    assert.deepEqual(diff.removed, [])
+    assert.deepEqual(diff.result, [a, changedB, c])
+  })
+
+  it('replaces the current list in replace mode', () => {
+    const diff = diffRuleSet([a, b], [b, c], 'replace')
+    assert.deepEqual(diff.added, [c])
+    assert.deepEqual(diff.changed, [])
+    assert.deepEqual(diff.removed, [a])
+    assert.deepEqual(diff.result, [b, c])
+  })
+
+  it('applies changes in place', () => {
+    const renamed = { text: 'd', reply: '2' }
+    assert.deepEqual(applyRuleChanges([a, b, c], [{ from: b, to: renamed }]), [a, renamed, c])
+    assert.deepEqual(applyRuleChanges([a], [{ to: b }]), [a, b])
+    assert.deepEqual(applyRuleChanges([a, b], [{ from: a }]), [b])
+  })
+
+  it('refuses stale or conflicting changes', () => {
+    assert.equal(applyRuleChanges([a], [{ from: { text: 'a', reply: 'old' } }]), '「a」已在之后被修改')
+    assert.equal(applyRuleChanges([a, b], [{ from: a, to: { text: 'b', reply: '1' } }]), '「b」已存在')
+  })
+})
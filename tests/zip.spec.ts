@@ -0,0 +1,109 @@
+import { strict as assert } from 'assert'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { after, before, describe, it } from 'node:test'
+import { deflateRawSync, gzipSync } from 'zlib'
+import { inflateHead, listZipFile, readZipEntries, readZipFile, writeZipFile } from '../src/utils'
+
+// 按 ZIP 格式手动拼出只含一个文件的压缩包，用于构造损坏或伪造的压缩包
+function buildZip(name: string, body: Buffer, options: { method?: number; size?: number; directorySize?: number } = {}): Buffer {
+  const nameBuffer = Buffer.from(name)
+  const local = Buffer.alloc(30)
+  local.writeUInt32LE(0x04034b50, 0)
+  local.writeUInt16LE(options.method ?? 0, 8)
+  local.writeUInt32LE(body.length, 18)
+  local.writeUInt32LE(options.size ?? body.length, 22)
+  local.writeUInt16LE(nameBuffer.length, 26)
+  const central = Buffer.alloc(46)
+  central.writeUInt32LE(0x02014b50, 0)
+  central.writeUInt16LE(options.method ?? 0, 10)
+  central.writeUInt32LE(body.length, 20)
+  central.writeUInt32LE(options.size ?? body.length, 24)
+  central.writeUInt16LE(nameBuffer.length, 28)
+  const directory = Buffer.concat([central, nameBuffer])
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(0x06054b50, 0)
+  eocd.writeUInt16LE(1, 8)
+  eocd.writeUInt16LE(1, 10)
+  eocd.writeUInt32LE(options.directorySize ?? directory.length, 12)
+  eocd.writeUInt32LE(local.length + nameBuffer.length + body.length, 16)
+  return Buffer.concat([local, nameBuffer, body, directory, eocd])
+}
+
+describe('zip', () => {
+  let dir: string
+
+  before(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'mcl-zip-'))
+  })
+
+  after(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('writes archives that can be read back', async () => {
+    const path = join(dir, 'roundtrip.zip')
+    const log = Buffer.from('[main/INFO]: Loading Minecraft\n'.repeat(1000))
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47])
+    await writeZipFile(path, [
+      { name: 'logs/latest.log', data: log },
+      { name: '截图.png', data: image },
+    ])
+
+    const entries = await readZipFile(path)
+    assert.deepEqual(
+      entries.map(entry => entry.name),
+      ['logs/latest.log', '截图.png'],
+    )
+    assert.ok(entries[0].data.equals(log))
+    assert.ok(entries[1].data.equals(image))
+    assert.deepEqual(await listZipFile(path), ['logs/latest.log', '截图.png'])
+    assert.deepEqual(
+      (await readZipEntries(await fs.readFile(path), name => name.endsWith('.log'))).map(entry => entry.name),
+      ['logs/latest.log'],
+    )
+  })
+
+  it('reads deflated entries', async () => {
+    const text = Buffer.from('hello '.repeat(100))
+    const entries = await readZipEntries(buildZip('a.txt', deflateRawSync(text), { method: 8, size: text.length }))
+    assert.equal(entries.length, 1)
+    assert.ok(entries[0].data.equals(text))
+  })
+
+  it('skips entries that exceed the inflate limit', async () => {
+    const text = Buffer.alloc(4096, 'a')
+    const zip = buildZip('big.log', deflateRawSync(text), { method: 8, size: text.length })
+    assert.deepEqual(await readZipEntries(zip, undefined, { maxSize: 1024 }), [])
+  })
+
+  it('reads only the head of each entry when requested', async () => {
+    const text = Buffer.alloc(1024 * 1024, 'a')
+    const entries = await readZipEntries(buildZip('big.log', deflateRawSync(text), { method: 8, size: text.length }), undefined, { headSize: 100 })
+    assert.equal(entries[0].data.length, 100)
+    const stored = await readZipEntries(buildZip('big.log', text), undefined, { headSize: 100 })
+    assert.equal(stored[0].data.length, 100)
+  })
+
+  it('inflates only the head of highly compressed data', async () => {
+    const bomb = gzipSync(Buffer.alloc(64 * 1024 * 1024))
+    assert.equal((await inflateHead(bomb, 'gzip', 65536)).length, 65536)
+    const truncated = gzipSync(Buffer.from('line\n'.repeat(1000))).subarray(0, 40)
+    assert.ok((await inflateHead(truncated, 'gzip', 65536)).toString().startsWith('line\n'))
+  })
+
+  it('rejects central directories outside the archive', async () => {
+    const zip = buildZip('a.txt', Buffer.from('hello'), { directorySize: 0xffffffff })
+    assert.deepEqual(await readZipEntries(zip), [])
+
+    const path = join(dir, 'crafted.zip')
+    await fs.writeFile(path, zip)
+    assert.deepEqual(await readZipFile(path), [])
+  })
+
+  it('returns an empty list for missing or invalid archives', async () => {
+    assert.deepEqual(await readZipFile(join(dir, 'missing.zip')), [])
+    assert.deepEqual(await readZipEntries(Buffer.from('not a zip')), [])
+  })
+})